@@ -1,19 +1,70 @@
 
-import React, { useState, useEffect } from 'react';
-import { Activity, Lock, User, ExternalLink, TrendingUp, Database, ArrowUpRight, ArrowDownRight, Wallet, BarChart2, Hammer, Clock, Shield, Menu, X, Rabbit, FileText, Globe, PlayCircle, Newspaper, ArrowLeft, Share2, Gift, CheckCircle, Loader2, Download, ArrowRight, Box } from 'lucide-react';
-import { INITIAL_COINS, MAX_HISTORY_POINTS, SIMULATION_INTERVAL, MOCK_NEWS } from './constants';
-import { CoinData, CoinId, NewsItem } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Activity, Lock, User, ExternalLink, ArrowUpRight, ArrowDownRight, Wallet, BarChart2, Clock, Menu, X, FileText, Globe, PlayCircle, Newspaper, ArrowLeft, Share2, Gift, CheckCircle, Loader2, Download, ArrowRight, Box, LayoutGrid, List } from 'lucide-react';
+import { INITIAL_COINS, MAX_HISTORY_POINTS, SIMULATION_INTERVAL, PERSIST_INTERVAL, EQUITY_SNAPSHOT_INTERVAL } from './constants';
+import { AlertEvent, AuditEntry, AuditField, ChartMode, CoinData, CoinId, EquitySnapshot, GatewayOrder, IndicatorConfig, Ledger, MarketHistory, MarketSort, MarketView, NewsItem, Order, PriceAlert, PriceSchedule, Profile, SortDirection, Timeframe, TradeSide, Watchlist } from './types';
 import PriceChart from './components/PriceChart';
-import CountdownTimer from './components/CountdownTimer';
-import BuyModal from './components/BuyModal';
+import OrderTicket from './components/OrderTicket';
 import VoxelTrade from './components/VoxelTrade';
+import AdminPanel from './components/AdminPanel';
+import AdminLogin from './components/AdminLogin';
+import InterventionsFeed from './components/InterventionsFeed';
+import PriceChange from './components/PriceChange';
+import IndicatorPicker from './components/IndicatorPicker';
+import OrdersPanel from './components/OrdersPanel';
+import OrderBookPanel from './components/OrderBookPanel';
+import SettlementAction from './components/SettlementAction';
+import MarketCard from './components/MarketCard';
+import MarketsTable from './components/MarketsTable';
+import WatchlistTabs from './components/WatchlistTabs';
+import TradeTape from './components/TradeTape';
+import Portfolio from './components/Portfolio';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import AlertsPanel from './components/AlertsPanel';
+import AlertToasts from './components/AlertToasts';
+import { rebaseCoin, stepPrice } from './services/priceModels';
+import { createRng, isSeedPinned } from './services/random';
+import { getSessionExpiry, logout } from './services/adminAuth';
+import { activateSchedules, applySchedules, getScheduleStatus } from './services/priceSchedules';
+import { createId } from './services/ids';
+import { appendAuditEntries, createAuditEntries, createBalanceAuditEntries, isAuditLogPublic, loadAuditLog, setAuditLogPublic } from './services/auditLog';
+import { clearSavedMarket, loadCoins, loadHistory, loadSchedules, saveCoins, saveHistory, saveSchedules } from './services/storage';
+import { backfillHistory, backfillMarket, formatCandleTime, recordMarketTick, TIMEFRAMES, toPricePoints } from './services/historyStore';
+import { aggregateTicks, CHART_MODE_LABELS } from './services/chartData';
+import { computeAllMarketStats, formatVolume } from './services/marketStats';
+import { adoptLegacyWallet, createLedger, getBalance, getTotalAssets, loadLedger, loadLedgers, resetLedger, saveLedger, setBalance } from './services/ledger';
+import { generateOrderBooks, OrderBook } from './services/orderBook';
+import { applyGatewayFill, buildAirdropLink, createGatewayOrder, GatewayResolution, getOrderProfileId, loadGatewayOrders, resolveGatewayOrder, saveGatewayOrders } from './services/telegramGateway';
+import { createListedCoin, isListed, NewListing, validateListing } from './services/listings';
+import { createWatchlist, DEFAULT_SORT_DIRECTIONS, filterMarkets, GRID_SORTS, loadActiveWatchlistId, loadMarketView, loadWatchlists, MARKET_SORT_LABELS, saveActiveWatchlistId, saveMarketView, saveWatchlists, sortMarkets, toggleWatchlistCoin, validateWatchlistName } from './services/markets';
+import { clearEquitySnapshots, loadEquitySnapshots, recordEquitySnapshot, takeEquitySnapshot } from './services/equityHistory';
+import { AlertDraft, appendAlertHistory, capAlertHistory, clearAlertHistory, createAlert, evaluateAlerts, loadAlertHistory, loadAlerts, loadNotificationsEnabled, saveAlerts, setNotificationsEnabled, showAlertNotification, toggleAlert, validateAlert } from './services/alerts';
+import { createNewsItem, getNewsFeed, loadPublishedNews, NewsDraft, publishNews, savePublishedNews, validateNews } from './services/news';
+import { createProfile, DEFAULT_PROFILE_ID, loadActiveProfileId, loadProfiles, saveActiveProfileId, saveProfiles, validateProfileName } from './services/profiles';
+import { cancelOrder, getAvailableBalance, getAvailableCash, matchOrders, modifyOrder, OrderRequest, placeOrder, PlaceOrderResult } from './services/orders';
+
+const ADMIN_PATH = '/admin';
+const isAdminPath = () => window.location.pathname.replace(/\/+$/, '') === ADMIN_PATH;
 
 function App() {
   const [coins, setCoins] = useState<CoinData[]>(INITIAL_COINS);
-  const [buyModalCoin, setBuyModalCoin] = useState<CoinId | null>(null);
-  const [activeTab, setActiveTab] = useState<'markets' | 'trade' | 'news' | 'airdrop' | 'voxel'>('markets');
+  const [isStateRestored, setIsStateRestored] = useState(false);
+  // Long-horizon OHLC history; a fresh market opens with a synthetic 24h backfill
+  const [marketHistory, setMarketHistory] = useState<MarketHistory>(() => backfillMarket(INITIAL_COINS, Date.now(), createRng('backfill')));
+  const [chartTimeframe, setChartTimeframe] = useState<Timeframe | 'live'>('live');
+  const [chartMode, setChartMode] = useState<ChartMode>('area');
+  const [chartIndicators, setChartIndicators] = useState<IndicatorConfig[]>([]);
+  const [orderTicket, setOrderTicket] = useState<{ coinId: CoinId; side: TradeSide } | null>(null);
+  const [activeTab, setActiveTab] = useState<'markets' | 'trade' | 'portfolio' | 'news' | 'airdrop' | 'voxel'>('markets');
   const [selectedTradeCoinId, setSelectedTradeCoinId] = useState<CoinId>('USTC');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [marketSort, setMarketSort] = useState<MarketSort>('default');
+  const [marketQuery, setMarketQuery] = useState('');
+  const [marketSortDirection, setMarketSortDirection] = useState<SortDirection>('asc');
+  const [marketView, setMarketView] = useState<MarketView>(loadMarketView);
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(loadWatchlists);
+  // The watchlist shown on the markets view and in its ticker; null for all markets
+  const [activeWatchlistId, setActiveWatchlistId] = useState(() => loadActiveWatchlistId(watchlists));
   
   // News State
   const [selectedNewsItem, setSelectedNewsItem] = useState<NewsItem | null>(null);
@@ -24,47 +75,518 @@ function App() {
   const [isConnectingWallet, setIsConnectingWallet] = useState(false);
   const [isAirdropClaimed, setIsAirdropClaimed] = useState(false);
 
+  // Admin State (opened via /admin or Ctrl+Shift+A)
+  const [isAdminOpen, setIsAdminOpen] = useState(isAdminPath);
+  const [adminSessionExpiry, setAdminSessionExpiry] = useState<number | null>(getSessionExpiry);
+  const [priceSchedules, setPriceSchedules] = useState<PriceSchedule[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(loadAuditLog);
+  const [isAuditPublic, setIsAuditPublic] = useState(isAuditLogPublic);
+  // Demo personas sharing the market, each trading from its own ledger
+  const [profiles, setProfiles] = useState<Profile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(() => loadActiveProfileId(profiles));
+  // Paper-trading cash, wallet and fills of every profile. Like the market,
+  // trading state is neither restored nor saved while the seed is pinned.
+  const [ledgers, setLedgers] = useState<Record<string, Ledger>>(() => loadLedgers(profiles.map(p => p.id), isSeedPinned()));
+  const ledger = ledgers[activeProfileId];
+  // Requests handed off to Telegram order bots, pending until the desk settles them
+  const [gatewayOrders, setGatewayOrders] = useState<GatewayOrder[]>(() => (isSeedPinned() ? [] : loadGatewayOrders()));
+  // Periodic portfolio value snapshots for the Portfolio analytics
+  const [equitySnapshots, setEquitySnapshots] = useState<EquitySnapshot[]>(() => loadEquitySnapshots(activeProfileId));
+  // Price alerts, the ones that have fired, and those still shown as toasts
+  const [alerts, setAlerts] = useState<PriceAlert[]>(() => (isSeedPinned() ? [] : loadAlerts()));
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(() => (isSeedPinned() ? [] : loadAlertHistory()));
+  const [alertToasts, setAlertToasts] = useState<AlertEvent[]>([]);
+  // Articles published from the admin panel, above the built-in ones
+  const [publishedNews, setPublishedNews] = useState<NewsItem[]>(() => (isSeedPinned() ? [] : loadPublishedNews()));
+  const newsFeed = useMemo(() => getNewsFeed(publishedNews), [publishedNews]);
+  const [notificationsEnabled, setNotificationsEnabledState] = useState(loadNotificationsEnabled);
+
+  // Latest values for the interval callback, which is created once
+  const coinsRef = useRef(coins);
+  const historyRef = useRef(marketHistory);
+  const schedulesRef = useRef(priceSchedules);
+  const ledgersRef = useRef(ledgers);
+  const activeProfileRef = useRef(activeProfileId);
+  useEffect(() => { coinsRef.current = coins; }, [coins]);
+  useEffect(() => { ledgersRef.current = ledgers; }, [ledgers]);
+  useEffect(() => { activeProfileRef.current = activeProfileId; }, [activeProfileId]);
+  useEffect(() => { historyRef.current = marketHistory; }, [marketHistory]);
+  useEffect(() => { schedulesRef.current = priceSchedules; }, [priceSchedules]);
+
+  // Restore the last saved market state. A seed pinned in the URL always
+  // starts fresh so the run stays reproducible.
+  useEffect(() => {
+    if (isSeedPinned()) return;
+    Promise.all([loadCoins(), loadHistory(), loadSchedules()]).then(([restored, savedHistory, savedSchedules]) => {
+      const savedCoins = restored ? restored.coins : null;
+      if (savedCoins) setCoins(savedCoins);
+      // A save from before wallets existed hands its balances to the default profile
+      if (restored && restored.legacyWallet) {
+        adoptLegacyWallet(restored.legacyWallet);
+        setLedgers(current => ({ ...current, [DEFAULT_PROFILE_ID]: loadLedger() }));
+      }
+      if (savedHistory) setMarketHistory(savedHistory);
+      else if (savedCoins) setMarketHistory(backfillMarket(savedCoins, Date.now(), createRng('backfill')));
+      // Keep any schedule added while the restore was still loading
+      if (savedSchedules) {
+        setPriceSchedules(current => [...savedSchedules, ...current.filter(s => !savedSchedules.some(saved => saved.id === s.id))]);
+      }
+      setIsStateRestored(true);
+    });
+  }, []);
+
+  // Snapshot the market periodically, but only after the restore so defaults never overwrite a save
+  useEffect(() => {
+    if (!isStateRestored) return;
+    const intervalId = setInterval(() => {
+      saveCoins(coinsRef.current);
+      saveHistory(historyRef.current);
+      saveSchedules(schedulesRef.current);
+    }, PERSIST_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isStateRestored]);
+
+  // Record every profile's portfolio value on the same terms, so restored balances are what gets measured
+  useEffect(() => {
+    if (!isStateRestored) return;
+    const intervalId = setInterval(() => {
+      const now = Date.now();
+      Object.entries(ledgersRef.current).forEach(([profileId, profileLedger]) => {
+        const snapshots = recordEquitySnapshot(profileId, takeEquitySnapshot(coinsRef.current, profileLedger, now));
+        if (profileId === activeProfileRef.current) setEquitySnapshots(snapshots);
+      });
+    }, EQUITY_SNAPSHOT_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isStateRestored]);
+
+  // A fresh synthetic book around every price, so market orders see slippage.
+  // Ticks build theirs for matching and the render reuses them; other coin
+  // changes (admin edits, listings, restores) get a new book here.
+  const bookRng = useMemo(() => createRng('orderbook'), []);
+  const tickBooksRef = useRef<{ coins: CoinData[]; books: Record<string, OrderBook> } | null>(null);
+  const orderBooks = useMemo(() => (
+    tickBooksRef.current && tickBooksRef.current.coins === coins ? tickBooksRef.current.books : generateOrderBooks(coins, bookRng)
+  ), [coins]);
+
+  // Saves every ledger that changed since the last save
+  const savedLedgersRef = useRef(ledgers);
+  useEffect(() => {
+    if (!isSeedPinned()) {
+      Object.entries(ledgers).forEach(([profileId, profileLedger]) => {
+        if (savedLedgersRef.current[profileId] !== profileLedger) saveLedger(profileLedger, profileId);
+      });
+    }
+    savedLedgersRef.current = ledgers;
+  }, [ledgers]);
+
+  // Alerts are checked against the prices of every simulation tick
+  useEffect(() => {
+    const result = evaluateAlerts(alerts, coins, marketHistory, newsFeed, Date.now());
+    if (!result) return;
+    commitAlerts(result.alerts);
+    if (isSeedPinned()) setAlertHistory(current => capAlertHistory([...current, ...result.events]));
+    else setAlertHistory(appendAlertHistory(result.events));
+    setAlertToasts(current => [...current, ...result.events]);
+    if (notificationsEnabled) {
+      result.events.forEach(event => {
+        const coin = coins.find(c => c.id === event.coinId);
+        if (coin) showAlertNotification(event, coin);
+      });
+    }
+  }, [coins]);
+
   // Simulation Engine
   useEffect(() => {
+    const marketRng = createRng('market');
     const intervalId = setInterval(() => {
-      setCoins(currentCoins => {
-        return currentCoins.map(coin => {
-          // Volatility logic: +/- 2% from basePrice
-          const randomFactor = 0.98 + Math.random() * 0.04;
-          const newPrice = coin.basePrice * randomFactor;
-          
-          const newPoint = {
-            time: new Date().toLocaleTimeString(),
-            value: newPrice
-          };
-
-          const newHistory = [...coin.history, newPoint];
-          if (newHistory.length > MAX_HISTORY_POINTS) {
-            newHistory.shift();
-          }
-
-          return {
-            ...coin,
-            currentPrice: newPrice,
-            history: newHistory
-          };
+      const now = Date.now();
+
+      // Start due ramps from the latest basePrice, then drop finished ones
+      const schedules = activateSchedules(schedulesRef.current, coinsRef.current, now);
+      if (schedules.length > 0) {
+        setPriceSchedules(current => current
+          .map(s => schedules.find(started => started.id === s.id) ?? s)
+          .filter(s => getScheduleStatus(s, now) !== 'done'));
+      }
+
+      // Completed ramps are audited once, as a single from -> target change
+      const completed = schedules.filter(s => s.fromPrice !== undefined && getScheduleStatus(s, now) === 'done');
+      if (completed.length > 0) {
+        setAuditLog(appendAuditEntries(completed.map(s => ({
+          id: createId('aud'),
+          timestamp: now,
+          coinId: s.coinId,
+          field: 'basePrice' as AuditField,
+          previousValue: s.fromPrice!,
+          newValue: s.targetPrice,
+          source: 'schedule' as const,
+        }))));
+      }
+
+      const nextCoins = applySchedules(coinsRef.current, schedules, now).map(coin => {
+        if (!isListed(coin)) return coin;
+        // Each coin moves according to its own price model
+        const { price: newPrice, regime } = stepPrice(coin, marketRng);
+        
+        const newPoint = {
+          time: new Date().toLocaleTimeString(),
+          value: newPrice
+        };
+
+        const newHistory = [...coin.history, newPoint];
+        if (newHistory.length > MAX_HISTORY_POINTS) {
+          newHistory.shift();
+        }
+
+        return {
+          ...coin,
+          currentPrice: newPrice,
+          regime,
+          history: newHistory
+        };
+      });
+      coinsRef.current = nextCoins;
+      setCoins(nextCoins);
+
+      // Resting orders of every profile fill (or expire) against the new prices.
+      // Matching runs on the latest ledgers so it never overwrites an update
+      // made in the same render.
+      const books = generateOrderBooks(nextCoins, bookRng);
+      tickBooksRef.current = { coins: nextCoins, books };
+      setLedgers(current => {
+        let next = current;
+        Object.entries(current).forEach(([profileId, profileLedger]) => {
+          const result = matchOrders(profileLedger, nextCoins, now, books);
+          if (result) next = { ...next, [profileId]: result.ledger };
         });
+        return next;
       });
+
+      // Only simulation ticks trade, so admin edits never reach the candles, stats or tape
+      historyRef.current = recordMarketTick(historyRef.current, nextCoins.filter(isListed), now);
+      setMarketHistory(historyRef.current);
     }, SIMULATION_INTERVAL);
 
     return () => clearInterval(intervalId);
   }, []);
 
+  // Hidden admin shortcut and /admin route (kept in sync with back/forward)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        openAdmin();
+      }
+    };
+    const handlePopState = () => setIsAdminOpen(isAdminPath());
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  // Drop back to the login screen when the admin session expires
+  useEffect(() => {
+    if (!adminSessionExpiry) return;
+    const timer = setTimeout(() => setAdminSessionExpiry(getSessionExpiry()), adminSessionExpiry - Date.now());
+    return () => clearTimeout(timer);
+  }, [adminSessionExpiry]);
+
+  const openAdmin = () => {
+    if (!isAdminPath()) window.history.pushState(null, '', ADMIN_PATH + window.location.search);
+    setAdminSessionExpiry(getSessionExpiry());
+    setIsAdminOpen(true);
+  };
+
+  const closeAdmin = () => {
+    if (isAdminPath()) window.history.pushState(null, '', '/' + window.location.search);
+    setIsAdminOpen(false);
+  };
+
+  const handleAdminLogout = () => {
+    logout();
+    setAdminSessionExpiry(null);
+  };
+
+  const handleUpdateCoin = (id: CoinId, updates: Partial<CoinData>, reason?: string) => {
+    // Record price changes before applying them
+    const coin = getCoin(id);
+    if (coin) {
+      const entries = createAuditEntries(coin, updates, reason);
+      if (entries.length > 0) setAuditLog(appendAuditEntries(entries));
+    }
+
+    setCoins(currentCoins => currentCoins.map(coin => {
+      if (coin.id !== id) return coin;
+      const { basePrice, ...rest } = updates;
+      const updated = { ...coin, ...rest };
+      return basePrice !== undefined ? rebaseCoin(updated, basePrice) : updated;
+    }));
+  };
+
+  // Lists a new coin with a synthetic 24h history so its charts aren't empty
+  const handleListCoin = (listing: NewListing): { ok: true } | { ok: false; error: string } => {
+    const error = validateListing(listing, coins);
+    if (error) return { ok: false, error };
+    const coin = createListedCoin(listing);
+    setCoins(current => [...current, coin]);
+    setMarketHistory(current => ({ ...current, [coin.id]: backfillHistory(coin, Date.now(), createRng(`backfill:${coin.id}`)) }));
+    return { ok: true };
+  };
+
+  const handleResetMarket = async () => {
+    await clearSavedMarket();
+    const entries = coins.flatMap(coin => {
+      const defaults = INITIAL_COINS.find(c => c.id === coin.id);
+      return defaults ? createAuditEntries(coin, defaults, 'Reset to defaults') : [];
+    });
+    if (entries.length > 0) setAuditLog(appendAuditEntries(entries));
+    setCoins(INITIAL_COINS);
+    setMarketHistory(backfillMarket(INITIAL_COINS, Date.now(), createRng('backfill')));
+    setPriceSchedules([]);
+    // Every profile's trading starts over too, the default wallet back at its opening balances
+    const reset: Record<string, Ledger> = {};
+    profiles.forEach(p => {
+      if (isSeedPinned()) {
+        reset[p.id] = createLedger(p.id);
+        return;
+      }
+      reset[p.id] = resetLedger(p.id);
+      clearEquitySnapshots(p.id);
+    });
+    setLedgers(reset);
+    setEquitySnapshots([]);
+  };
+
+  // Replaces a profile's ledger (the active one's by default); the ledger
+  // effect saves it
+  const commitLedger = (next: Ledger, profileId = activeProfileId) => {
+    setLedgers(current => ({ ...current, [profileId]: next }));
+  };
+
+  // Admin edit of the active profile's wallet
+  const handleUpdateBalance = (coinId: CoinId, balance: number, reason?: string) => {
+    const coin = getCoin(coinId);
+    if (!coin) return;
+    const entries = createBalanceAuditEntries(coin, activeProfileId, getBalance(ledger, coinId), balance, reason);
+    if (entries.length > 0) setAuditLog(appendAuditEntries(entries));
+    commitLedger(setBalance(ledger, coinId, balance));
+  };
+
+  const handleSwitchProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    saveActiveProfileId(profileId);
+    setEquitySnapshots(loadEquitySnapshots(profileId));
+    setOrderTicket(null);
+  };
+
+  const handleCreateProfile = (name: string): { ok: true } | { ok: false; error: string } => {
+    const error = validateProfileName(name, profiles);
+    if (error) return { ok: false, error };
+    const profile = createProfile(name, profiles);
+    const next = [...profiles, profile];
+    setProfiles(next);
+    saveProfiles(next);
+    setLedgers(current => ({ ...current, [profile.id]: loadLedger(profile.id) }));
+    handleSwitchProfile(profile.id);
+    return { ok: true };
+  };
+
+  // Removes a profile with its ledger and snapshots; its Telegram requests stay on the desk
+  const handleDeleteProfile = (profileId: string) => {
+    if (profileId === DEFAULT_PROFILE_ID) return;
+    const next = profiles.filter(p => p.id !== profileId);
+    setProfiles(next);
+    saveProfiles(next);
+    resetLedger(profileId);
+    clearEquitySnapshots(profileId);
+    setLedgers(current => {
+      const { [profileId]: _removed, ...rest } = current;
+      return rest;
+    });
+    if (profileId === activeProfileId) handleSwitchProfile(DEFAULT_PROFILE_ID);
+  };
+
+  // Market orders walk the book; other types rest until triggered
+  const handlePlaceOrder = (coinId: CoinId, request: Omit<OrderRequest, 'coinId'>): PlaceOrderResult => {
+    const coin = getCoin(coinId);
+    if (!coin) return { ok: false, error: 'Unknown coin.' };
+    const result = placeOrder(ledger, coin, { ...request, coinId }, Date.now(), orderBooks[coinId]);
+    if (result.ok === true) commitLedger(result.ledger);
+    return result;
+  };
+
+  const commitGatewayOrders = (next: GatewayOrder[]) => {
+    setGatewayOrders(next);
+    if (!isSeedPinned()) saveGatewayOrders(next);
+  };
+
+  const handleTelegramOrder = (coinId: CoinId, side: TradeSide, quantity: number) => {
+    const coin = getCoin(coinId);
+    if (!coin) return;
+    const { order, link } = createGatewayOrder(coin, side, quantity, activeProfileId);
+    commitGatewayOrders([...gatewayOrders, order]);
+    window.open(link, '_blank');
+  };
+
+  // Desk decision on a Telegram request; fills credit (or debit) the sender's wallet
+  const handleResolveGatewayOrder = (id: string, resolution: GatewayResolution): { ok: true } | { ok: false; error: string } => {
+    const order = gatewayOrders.find(o => o.id === id && o.status === 'pending');
+    if (!order) return { ok: false, error: 'The request is no longer pending.' };
+    if (resolution.status === 'filled') {
+      const coin = getCoin(order.coinId);
+      if (!coin) return { ok: false, error: 'Unknown coin.' };
+      const profileId = getOrderProfileId(order);
+      const profileLedger = ledgers[profileId];
+      if (!profileLedger) return { ok: false, error: 'The profile that sent this request was deleted.' };
+      const result = applyGatewayFill(order, coin, profileLedger);
+      if (result.ok === false) return result;
+      const entries = createBalanceAuditEntries(coin, profileId, getBalance(profileLedger, coin.id), result.balance, `Telegram order ${order.id} filled at $${resolution.fillPrice}`);
+      if (entries.length > 0) setAuditLog(appendAuditEntries(entries));
+      commitLedger(result.ledger, profileId);
+    }
+    commitGatewayOrders(resolveGatewayOrder(gatewayOrders, id, resolution));
+    return { ok: true };
+  };
+
+  const commitAlerts = (next: PriceAlert[]) => {
+    setAlerts(next);
+    if (!isSeedPinned()) saveAlerts(next);
+  };
+
+  const handleCreateAlert = (draft: AlertDraft): { ok: true } | { ok: false; error: string } => {
+    const coin = getCoin(draft.coinId);
+    if (!coin) return { ok: false, error: 'Unknown coin.' };
+    const error = validateAlert(draft, coin);
+    if (error) return { ok: false, error };
+    commitAlerts([...alerts, createAlert(draft, newsFeed)]);
+    return { ok: true };
+  };
+
+  const handlePublishNews = (draft: NewsDraft): { ok: true } | { ok: false; error: string } => {
+    const error = validateNews(draft, coins);
+    if (error) return { ok: false, error };
+    const next = publishNews(publishedNews, createNewsItem(draft));
+    setPublishedNews(next);
+    if (!isSeedPinned()) savePublishedNews(next);
+    return { ok: true };
+  };
+
+  const handleClearAlertHistory = () => {
+    if (!isSeedPinned()) clearAlertHistory();
+    setAlertHistory([]);
+  };
+
+  const handleToggleNotifications = async (enabled: boolean) => {
+    setNotificationsEnabledState(await setNotificationsEnabled(enabled));
+  };
+
+  // A toast opens the trade view on the coin that fired
+  const handleOpenAlert = (event: AlertEvent) => {
+    setSelectedTradeCoinId(event.coinId);
+    setActiveTab('trade');
+    setAlertToasts(current => current.filter(t => t.id !== event.id));
+  };
+
+  const handleCancelOrder = (id: string) => {
+    commitLedger(cancelOrder(ledger, id));
+  };
+
+  const handleModifyOrder = (id: string, changes: Partial<Pick<Order, 'quantity' | 'limitPrice' | 'stopPrice'>>) => {
+    const order = ledger.orders.find(o => o.id === id);
+    const coin = order && getCoin(order.coinId);
+    if (!coin) return { ok: false as const, error: 'The order is no longer open.' };
+    const result = modifyOrder(ledger, coin, id, changes);
+    if (result.ok === true) commitLedger(result.ledger);
+    return result;
+  };
+
+  const handleAddSchedule = (schedule: Omit<PriceSchedule, 'id'>) => {
+    setPriceSchedules(current => [...current, { ...schedule, id: createId('sch') }]);
+  };
+
+  const handleCancelSchedule = (id: string) => {
+    setPriceSchedules(current => current.filter(s => s.id !== id));
+  };
+
+  const handleToggleAuditPublic = (isPublic: boolean) => {
+    setAuditLogPublic(isPublic);
+    setIsAuditPublic(isPublic);
+  };
+
   const getCoin = (id: CoinId) => coins.find(c => c.id === id);
+  // Delisted coins stay in state (and the saved snapshot) but are hidden from users
+  const listedCoins = useMemo(() => coins.filter(isListed), [coins]);
+  const totalAssets = getTotalAssets(ledger, coins);
+
+  // Rolling 24h change, range and volume for every coin
+  const marketStats = useMemo(() => computeAllMarketStats(coins, marketHistory, Date.now()), [coins, marketHistory]);
+  const getChangePercent = (id: CoinId) => marketStats[id]?.changePercent ?? 0;
+  const activeWatchlist = watchlists.find(w => w.id === activeWatchlistId) ?? null;
+  const visibleMarkets = sortMarkets(filterMarkets(listedCoins, marketQuery, activeWatchlist), marketSort, marketStats, ledger.wallet, marketSortDirection);
+  const tickerCoins = activeWatchlist ? listedCoins.filter(c => activeWatchlist.coinIds.includes(c.id)) : listedCoins;
+  // The active profile's Telegram requests
+  const profileGatewayOrders = gatewayOrders.filter(o => getOrderProfileId(o) === activeProfileId);
+
+  const selectedTradeCoin = listedCoins.find(c => c.id === selectedTradeCoinId) || listedCoins[0] || coins[0];
+  const selectedTradeStats = marketStats[selectedTradeCoin.id];
+  const selectedTradeChange = getChangePercent(selectedTradeCoin.id);
+  const selectedTradeHistory = marketHistory[selectedTradeCoin.id];
+  const selectedTradeChartData = chartTimeframe === 'live' || !selectedTradeHistory
+    ? selectedTradeCoin.history
+    : toPricePoints(selectedTradeHistory.candles[chartTimeframe], chartTimeframe);
+  // Live candles are rolled up from raw ticks
+  const selectedTradeCandles = !selectedTradeHistory
+    ? []
+    : chartTimeframe === 'live'
+      ? aggregateTicks(selectedTradeHistory.ticks)
+      : selectedTradeHistory.candles[chartTimeframe];
+
+  const commitWatchlists = (next: Watchlist[]) => {
+    setWatchlists(next);
+    saveWatchlists(next);
+  };
 
-  // Helper to calculate fake "24h Change" based on current price vs base price
-  const getChangePercent = (current: number, base: number) => {
-    const change = ((current - base) / base) * 100;
-    return change;
+  const handleToggleWatchlist = (watchlistId: string, coinId: CoinId) => {
+    commitWatchlists(toggleWatchlistCoin(watchlists, watchlistId, coinId));
   };
 
-  const selectedTradeCoin = coins.find(c => c.id === selectedTradeCoinId) || coins[0];
-  const selectedTradeChange = getChangePercent(selectedTradeCoin.currentPrice, selectedTradeCoin.basePrice);
+  const handleSelectWatchlist = (watchlistId: string | null) => {
+    setActiveWatchlistId(watchlistId);
+    saveActiveWatchlistId(watchlistId);
+  };
+
+  const handleCreateWatchlist = (name: string): { ok: true } | { ok: false; error: string } => {
+    const error = validateWatchlistName(name, watchlists);
+    if (error) return { ok: false, error };
+    const watchlist = createWatchlist(name);
+    commitWatchlists([...watchlists, watchlist]);
+    handleSelectWatchlist(watchlist.id);
+    return { ok: true };
+  };
+
+  const handleDeleteWatchlist = (watchlistId: string) => {
+    commitWatchlists(watchlists.filter(w => w.id !== watchlistId));
+    if (activeWatchlistId === watchlistId) handleSelectWatchlist(null);
+  };
+
+  const handleSetMarketSort = (sort: MarketSort) => {
+    setMarketSort(sort);
+    setMarketSortDirection(DEFAULT_SORT_DIRECTIONS[sort]);
+  };
+
+  // Clicking the sorted table column again flips its direction
+  const handleSortColumn = (sort: MarketSort) => {
+    if (sort === marketSort) setMarketSortDirection(marketSortDirection === 'asc' ? 'desc' : 'asc');
+    else handleSetMarketSort(sort);
+  };
+
+  const handleSetMarketView = (view: MarketView) => {
+    setMarketView(view);
+    saveMarketView(view);
+  };
 
   const handleNewsClick = (news: NewsItem) => {
     if (news.category === 'article' || news.category === 'video') {
@@ -89,9 +611,7 @@ function App() {
   };
 
   const handleClaimAirdrop = () => {
-    const message = "Здравствуйте! Я подключил кошелек и хочу получить Airdrop 1,000 INSb.";
-    const encodedMessage = encodeURIComponent(message);
-    window.open(`https://t.me/Insbitg?text=${encodedMessage}`, '_blank');
+    window.open(buildAirdropLink(1000, 'INSb'), '_blank');
     setIsAirdropClaimed(true);
   };
 
@@ -135,6 +655,12 @@ function App() {
             >
               Trade
             </button>
+            <button 
+              onClick={() => { setActiveTab('portfolio'); setSelectedNewsItem(null); }}
+              className={`h-full border-b-[3px] transition-all px-1 ${activeTab === 'portfolio' ? 'text-[#EAECEF] border-[#f7a600]' : 'border-transparent hover:text-[#EAECEF] hover:border-gray-700'}`}
+            >
+              Portfolio
+            </button>
             <button 
               onClick={() => setActiveTab('news')}
               className={`h-full border-b-[3px] transition-all px-1 ${activeTab === 'news' ? 'text-[#EAECEF] border-[#f7a600]' : 'border-transparent hover:text-[#EAECEF] hover:border-gray-700'}`}
@@ -157,10 +683,11 @@ function App() {
         </div>
 
         <div className="flex items-center gap-4">
+          <ProfileSwitcher profiles={profiles} activeProfileId={activeProfileId} onSwitch={handleSwitchProfile} onCreate={handleCreateProfile} />
           <div className="hidden md:flex items-center gap-3 bg-[#1e2227] px-3 py-1.5 rounded border border-[#2b3139] hover:border-gray-600 transition-colors">
             <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Est. Assets</span>
             <span className="text-sm font-mono text-white">
-              ${coins.reduce((acc, c) => acc + (c.balance * c.currentPrice), 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              ${totalAssets.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
             </span>
           </div>
           
@@ -189,6 +716,12 @@ function App() {
               className={`text-left px-4 py-3 rounded-lg font-medium text-sm transition-colors ${activeTab === 'trade' ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-400 hover:bg-[#1e2329] hover:text-white'}`}
             >
               Trade
+            </button>
+            <button 
+              onClick={() => { setActiveTab('portfolio'); setSelectedNewsItem(null); setIsMobileMenuOpen(false); }}
+              className={`text-left px-4 py-3 rounded-lg font-medium text-sm transition-colors ${activeTab === 'portfolio' ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-400 hover:bg-[#1e2329] hover:text-white'}`}
+            >
+              Portfolio
             </button>
              <button 
               onClick={() => { setActiveTab('news'); setIsMobileMenuOpen(false); }}
@@ -213,7 +746,7 @@ function App() {
             <div className="mt-4 pt-4 border-t border-[#2b3139]">
                <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1 px-4">Total Assets</div>
                <div className="text-lg font-mono text-white px-4">
-                  ${coins.reduce((acc, c) => acc + (c.balance * c.currentPrice), 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  ${totalAssets.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                </div>
             </div>
           </div>
@@ -224,7 +757,7 @@ function App() {
       <main className="flex-grow flex flex-col relative">
         
         {activeTab === 'voxel' ? (
-          <VoxelTrade />
+          <VoxelTrade coins={listedCoins} />
         ) : selectedNewsItem ? (
           // FULL ARTICLE VIEW
           <div className="container mx-auto px-4 py-8 animate-in fade-in slide-in-from-bottom-4 duration-300">
@@ -248,11 +781,13 @@ function App() {
                          ></iframe>
                       ) : (
                           <>
-                            <img 
-                                src={selectedNewsItem.imageUrl} 
-                                alt={selectedNewsItem.title} 
-                                className="w-full h-full object-cover"
-                            />
+                            {selectedNewsItem.imageUrl && (
+                              <img 
+                                  src={selectedNewsItem.imageUrl} 
+                                  alt={selectedNewsItem.title} 
+                                  className="w-full h-full object-cover"
+                              />
+                            )}
                             <div className="absolute inset-0 bg-gradient-to-t from-[#1e2329] via-transparent to-transparent"></div>
                           </>
                       )}
@@ -323,7 +858,6 @@ function App() {
                        {(() => {
                           const coin = getCoin(selectedNewsItem.relatedCoinId);
                           if (!coin) return null;
-                          const change = getChangePercent(coin.currentPrice, coin.basePrice);
                           return (
                              <div className="text-center">
                                 <div className="flex justify-center items-center gap-3 mb-2">
@@ -354,13 +888,26 @@ function App() {
                 </div>
              </div>
           </div>
+        ) : activeTab === 'portfolio' ? (
+          <Portfolio
+            coins={coins}
+            ledger={ledger}
+            gatewayOrders={profileGatewayOrders}
+            marketHistory={marketHistory}
+            snapshots={equitySnapshots}
+            auditLog={auditLog}
+            onTrade={(coinId) => { setSelectedTradeCoinId(coinId); setActiveTab('trade'); }}
+          />
         ) : activeTab === 'markets' ? (
           // MARKETS DASHBOARD VIEW
           <div className="container mx-auto px-4 py-6 space-y-6 animate-in fade-in duration-300">
-            {/* Market Ticker Bar */}
+            {/* Market Ticker Bar: follows the active watchlist */}
             <div className="hidden lg:flex gap-8 overflow-x-auto pb-2 text-xs border-b border-[#2b3139] mb-6">
-              {coins.map(coin => {
-                const change = getChangePercent(coin.currentPrice, coin.basePrice);
+              {tickerCoins.length === 0 && (
+                <div className="p-1 text-gray-500">Add markets to {activeWatchlist?.name} to follow them here.</div>
+              )}
+              {tickerCoins.map(coin => {
+                const change = getChangePercent(coin.id);
                 return (
                   <div key={coin.id} className="flex items-center gap-2 whitespace-nowrap cursor-pointer hover:bg-[#1e2329] p-1 rounded transition-colors" onClick={() => {
                     setSelectedTradeCoinId(coin.id);
@@ -378,301 +925,83 @@ function App() {
               })}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-5 gap-4">
-              
-              {/* 1. USTC - RSW Shares */}
-              <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col hover:border-gray-600 transition-colors">
-                <div className="p-4 flex justify-between items-center border-b border-[#2b3139]">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-emerald-900/30 rounded-full flex items-center justify-center text-emerald-500 font-bold text-xs border border-emerald-500/20">
-                      RSW
-                    </div>
-                    <div>
-                      <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
-                        USTC <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">Shares</span>
-                      </h3>
-                      <span className="text-xs text-gray-500">{coins[0].name}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-mono text-[#0ecb81] tracking-tight">
-                      {coins[0].currentPrice.toFixed(4)}
-                    </div>
-                    <div className="text-xs font-mono text-[#0ecb81] flex items-center justify-end gap-1">
-                      <ArrowUpRight size={12} /> 
-                      +{getChangePercent(coins[0].currentPrice, coins[0].basePrice).toFixed(2)}%
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-4 flex-grow flex flex-col justify-between">
-                  <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
-                    <div>
-                      <div className="mb-1">Holding (Vol)</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">{coins[0].balance.toLocaleString()}</div>
-                    </div>
-                    <div>
-                      <div className="mb-1">Total Value</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">
-                        ${(coins[0].balance * coins[0].currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="h-32 mb-4">
-                    <PriceChart data={coins[0].history} color="#0ecb81" />
-                  </div>
-
-                  <div className="space-y-3 mt-auto">
-                    <a 
-                      href="https://rsw-systems.com/?r=101716" 
-                      target="_blank" 
-                      rel="noreferrer"
-                      className="w-full flex items-center justify-center gap-2 py-2.5 bg-[#0ecb81] hover:bg-[#0ecb81]/90 text-white font-semibold rounded text-sm transition-colors"
-                    >
-                      Buy Shares <ExternalLink size={14} />
-                    </a>
-                    <CountdownTimer />
-                  </div>
-                </div>
-              </div>
-
-              {/* 2. INSb - Exchange Token (Was DKR) */}
-              <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col hover:border-gray-600 transition-colors">
-                <div className="p-4 flex justify-between items-center border-b border-[#2b3139]">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-blue-900/30 rounded-full flex items-center justify-center text-blue-500 font-bold text-xs border border-blue-500/20">
-                      INSb
-                    </div>
-                    <div>
-                      <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
-                        INSb <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">Token</span>
-                      </h3>
-                      <span className="text-xs text-gray-500">{coins[1].name}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-mono text-[#3b82f6] tracking-tight">
-                      {coins[1].currentPrice.toFixed(6)}
-                    </div>
-                    <div className="text-xs font-mono text-[#3b82f6] flex items-center justify-end gap-1">
-                      <ArrowDownRight size={12} /> 
-                      {(getChangePercent(coins[1].currentPrice, coins[1].basePrice)).toFixed(2)}%
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-4 flex-grow flex flex-col justify-between">
-                  <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
-                    <div>
-                      <div className="mb-1">Holding (Vol)</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">{coins[1].balance.toLocaleString()}</div>
-                    </div>
-                    <div>
-                      <div className="mb-1">Total Value</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">
-                        ${(coins[1].balance * coins[1].currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="h-32 mb-4">
-                    <PriceChart data={coins[1].history} color="#3b82f6" />
-                  </div>
-
-                  <div className="space-y-3 mt-auto">
+            {/* Watchlists, View & Search */}
+            <div className="flex flex-col md:flex-row gap-3 md:items-center justify-between">
+              <WatchlistTabs
+                watchlists={watchlists}
+                activeId={activeWatchlistId}
+                onSelect={handleSelectWatchlist}
+                onCreate={handleCreateWatchlist}
+                onDelete={handleDeleteWatchlist}
+              />
+              <div className="flex items-center gap-2">
+                <div className="flex border border-[#2b3139] rounded overflow-hidden">
+                  {([['grid', LayoutGrid], ['table', List]] as const).map(([view, Icon]) => (
                     <button
-                      onClick={() => setBuyModalCoin('INSb')}
-                      className="w-full flex items-center justify-center gap-2 py-2.5 bg-[#3b82f6] hover:bg-[#2563eb] text-white font-semibold rounded text-sm transition-colors"
+                      key={view}
+                      onClick={() => handleSetMarketView(view)}
+                      className={`px-2 py-1.5 transition-colors ${marketView === view ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-400 hover:text-[#EAECEF]'}`}
+                      title={view === 'grid' ? 'Cards' : 'Table'}
                     >
-                      Buy / Trade <TrendingUp size={14} />
+                      <Icon size={14} />
                     </button>
-                    <div className="flex items-center justify-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider">
-                      <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>
-                      Secure Telegram Gateway
-                    </div>
-                  </div>
+                  ))}
                 </div>
+                <input
+                  type="text"
+                  value={marketQuery}
+                  onChange={(e) => setMarketQuery(e.target.value)}
+                  placeholder="Search markets"
+                  className="w-full md:w-56 bg-[#1e2329] border border-[#2b3139] rounded px-3 py-1.5 text-xs text-[#EAECEF] outline-none focus:border-[#f7a600]"
+                />
               </div>
+            </div>
 
-              {/* 3. HOT - Mining */}
-              <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col relative overflow-hidden hover:border-gray-600 transition-colors">
-                <div className="absolute top-0 right-0 p-2 opacity-20">
-                   <Database size={100} className="text-gray-700 transform rotate-12" />
-                </div>
-
-                <div className="p-4 flex justify-between items-center border-b border-[#2b3139] relative z-10">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-orange-900/30 rounded-full flex items-center justify-center text-orange-500 font-bold text-xs border border-orange-500/20">
-                      HOT
-                    </div>
-                    <div>
-                      <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
-                        HOT <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">Utility</span>
-                      </h3>
-                      <span className="text-xs text-gray-500">{coins[2].name}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-mono text-[#EAECEF] tracking-tight">
-                      {coins[2].currentPrice.toFixed(2)}
-                    </div>
-                    <div className="text-xs font-mono text-gray-400 flex items-center justify-end gap-1">
-                      0.00%
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-4 flex-grow flex flex-col justify-between relative z-10">
-                  <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
-                    <div>
-                      <div className="mb-1">Holding (Vol)</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">{coins[2].balance.toLocaleString()}</div>
-                    </div>
-                    <div>
-                      <div className="mb-1">Est. Value</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">
-                        ${(coins[2].balance * coins[2].currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="h-32 mb-4 grayscale opacity-50">
-                    <PriceChart data={coins[2].history} color="#f97316" />
-                  </div>
-
-                  <div className="space-y-3 mt-auto">
-                    <button
-                      disabled
-                      className="w-full flex items-center justify-center gap-2 py-2.5 bg-[#2b3139] text-gray-500 font-semibold rounded text-sm cursor-not-allowed border border-[#363c45]"
-                    >
-                      Mining Unavailable
-                    </button>
-                    <div className="text-center text-[10px] text-gray-600 uppercase tracking-wider">
-                      Network Congested
-                    </div>
-                  </div>
-                </div>
+            {marketView === 'grid' && (
+              <div className="flex items-center gap-1 text-xs font-bold">
+                {GRID_SORTS.map(sort => (
+                  <button
+                    key={sort}
+                    onClick={() => handleSetMarketSort(sort)}
+                    className={`px-3 py-1.5 rounded transition-colors ${marketSort === sort ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-400 hover:text-[#EAECEF]'}`}
+                  >
+                    {MARKET_SORT_LABELS[sort]}
+                  </button>
+                ))}
               </div>
+            )}
 
-              {/* 4. KEEP - Storage */}
-              <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col hover:border-gray-600 transition-colors">
-                <div className="p-4 flex justify-between items-center border-b border-[#2b3139]">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-purple-900/30 rounded-full flex items-center justify-center text-purple-500 font-bold text-xs border border-purple-500/20">
-                      KEEP
-                    </div>
-                    <div>
-                      <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
-                        KEEP <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">Храни</span>
-                      </h3>
-                      <span className="text-xs text-gray-500">{coins[3].name}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-mono text-[#a855f7] tracking-tight">
-                      {coins[3].currentPrice.toFixed(6)}
-                    </div>
-                    <div className="text-xs font-mono text-[#a855f7] flex items-center justify-end gap-1">
-                      <ArrowUpRight size={12} /> 
-                      +{getChangePercent(coins[3].currentPrice, coins[3].basePrice).toFixed(2)}%
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-4 flex-grow flex flex-col justify-between">
-                  <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
-                    <div>
-                      <div className="mb-1">Holding (Vol)</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">{coins[3].balance.toLocaleString()}</div>
-                    </div>
-                    <div>
-                      <div className="mb-1">Total Value</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">
-                        ${(coins[3].balance * coins[3].currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="h-32 mb-4">
-                    <PriceChart data={coins[3].history} color="#a855f7" />
-                  </div>
-
-                  <div className="space-y-3 mt-auto">
-                    <a 
-                      href="https://keepfiles.ru" 
-                      target="_blank" 
-                      rel="noreferrer"
-                      className="w-full flex items-center justify-center gap-2 py-2.5 bg-[#a855f7] hover:bg-[#9333ea] text-white font-semibold rounded text-sm transition-colors"
-                    >
-                      Buy KEEP <Shield size={14} />
-                    </a>
-                    <div className="text-center text-[10px] text-gray-600 uppercase tracking-wider">
-                       Direct Server Access
-                    </div>
-                  </div>
-                </div>
+            {visibleMarkets.length === 0 ? (
+              <div className="py-16 text-center text-sm text-gray-500">
+                {activeWatchlist && activeWatchlist.coinIds.length === 0 ? `Star a market to add it to ${activeWatchlist.name}.` : 'No markets match your search.'}
               </div>
-
-              {/* 5. RBTC - RabBitcoin */}
-              <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col hover:border-gray-600 transition-colors">
-                <div className="p-4 flex justify-between items-center border-b border-[#2b3139]">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-pink-900/30 rounded-full flex items-center justify-center text-pink-500 font-bold text-xs border border-pink-500/20">
-                      RBTC
-                    </div>
-                    <div>
-                      <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
-                        RBTC <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">Rabbit</span>
-                      </h3>
-                      <span className="text-xs text-gray-500">{coins[4].name}</span>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-2xl font-mono text-[#ec4899] tracking-tight">
-                      {coins[4].currentPrice.toFixed(7)}
-                    </div>
-                    <div className="text-xs font-mono text-[#ec4899] flex items-center justify-end gap-1">
-                      <ArrowUpRight size={12} /> 
-                      +{getChangePercent(coins[4].currentPrice, coins[4].basePrice).toFixed(2)}%
-                    </div>
-                  </div>
-                </div>
-
-                <div className="p-4 flex-grow flex flex-col justify-between">
-                  <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
-                    <div>
-                      <div className="mb-1">Holding (Vol)</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">{coins[4].balance.toLocaleString()}</div>
-                    </div>
-                    <div>
-                      <div className="mb-1">Total Value</div>
-                      <div className="text-[#EAECEF] font-mono text-sm">
-                        ${(coins[4].balance * coins[4].currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className="h-32 mb-4">
-                    <PriceChart data={coins[4].history} color="#ec4899" />
-                  </div>
-
-                  <div className="space-y-3 mt-auto">
-                    <button
-                      onClick={() => setBuyModalCoin('RBTC')}
-                      className="w-full flex items-center justify-center gap-2 py-2.5 bg-[#ec4899] hover:bg-[#db2777] text-white font-semibold rounded text-sm transition-colors"
-                    >
-                      Buy RBTC (Telegram) <Rabbit size={14} />
-                    </button>
-                    <div className="flex items-center justify-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider">
-                      <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>
-                      Secure Telegram Gateway
-                    </div>
-                  </div>
-                </div>
+            ) : marketView === 'table' ? (
+              <MarketsTable
+                coins={visibleMarkets}
+                stats={marketStats}
+                wallet={ledger.wallet}
+                sort={marketSort}
+                direction={marketSortDirection}
+                onSort={handleSortColumn}
+                watchlists={watchlists}
+                onToggleWatchlist={handleToggleWatchlist}
+                onSelect={(coinId) => { setSelectedTradeCoinId(coinId); setActiveTab('trade'); }}
+              />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-5 gap-4">
+                {visibleMarkets.map(coin => (
+                  <MarketCard
+                    key={coin.id}
+                    coin={coin}
+                    balance={getBalance(ledger, coin.id)}
+                    changePercent={getChangePercent(coin.id)}
+                    watchlists={watchlists}
+                    onToggleWatchlist={(watchlistId) => handleToggleWatchlist(watchlistId, coin.id)}
+                    onOpenTicket={side => setOrderTicket({ coinId: coin.id, side })}
+                  />
+                ))}
               </div>
-
-            </div>
+            )}
           </div>
         ) : activeTab === 'trade' ? (
           // TRADE VIEW
@@ -685,8 +1014,8 @@ function App() {
                 <span>PRICE</span>
               </div>
               <div className="overflow-y-auto flex-1 custom-scrollbar">
-                {coins.map(coin => {
-                  const change = getChangePercent(coin.currentPrice, coin.basePrice);
+                {listedCoins.map(coin => {
+                  const change = getChangePercent(coin.id);
                   const isSelected = selectedTradeCoinId === coin.id;
                   return (
                     <button
@@ -726,23 +1055,89 @@ function App() {
                     ${selectedTradeCoin.currentPrice.toFixed(selectedTradeCoin.basePrice < 1 ? 6 : 4)}
                   </div>
                   <div className="hidden md:block text-xs text-gray-500 bg-[#2b3139] px-2 py-1 rounded">
-                    24h Change: <span className={selectedTradeChange >= 0 ? 'text-[#0ecb81]' : 'text-[#f6465d]'}>{selectedTradeChange >= 0 ? '+' : ''}{selectedTradeChange.toFixed(2)}%</span>
+                    24h Change: <PriceChange percent={selectedTradeChange} />
                   </div>
+                  {selectedTradeStats && (
+                    <div className="hidden xl:flex gap-4 text-xs">
+                      <div>
+                        <div className="text-gray-500">24h High</div>
+                        <div className="font-mono text-[#EAECEF]">{selectedTradeStats.high.toFixed(selectedTradeCoin.basePrice < 1 ? 6 : 4)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">24h Low</div>
+                        <div className="font-mono text-[#EAECEF]">{selectedTradeStats.low.toFixed(selectedTradeCoin.basePrice < 1 ? 6 : 4)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">24h Vol ({selectedTradeCoin.symbol})</div>
+                        <div className="font-mono text-[#EAECEF]">{formatVolume(selectedTradeStats.volume)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">24h Vol (USDT)</div>
+                        <div className="font-mono text-[#EAECEF]">{formatVolume(selectedTradeStats.quoteVolume)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500">VWAP</div>
+                        <div className="font-mono text-[#EAECEF]">{selectedTradeStats.vwap.toFixed(selectedTradeCoin.basePrice < 1 ? 6 : 4)}</div>
+                      </div>
+                    </div>
+                  )}
                 </div>
-                <div className="hidden lg:flex text-xs text-gray-400 items-center gap-4">
-                    <div className="flex items-center gap-1"><Clock size={14}/> Spot Market</div>
-                    <div className="flex items-center gap-1 text-[#f7a600]"><BarChart2 size={14}/> Trading View</div>
+                <div className="flex text-xs text-gray-400 items-center gap-4">
+                    <AlertsPanel
+                      coin={selectedTradeCoin}
+                      coins={coins}
+                      alerts={alerts}
+                      history={alertHistory}
+                      notificationsEnabled={notificationsEnabled}
+                      onCreate={handleCreateAlert}
+                      onToggle={id => commitAlerts(toggleAlert(alerts, id))}
+                      onDelete={id => commitAlerts(alerts.filter(a => a.id !== id))}
+                      onClearHistory={handleClearAlertHistory}
+                      onToggleNotifications={handleToggleNotifications}
+                    />
+                    <div className="hidden lg:flex items-center gap-1"><Clock size={14}/> Spot Market</div>
+                    <div className="hidden lg:flex items-center gap-1 text-[#f7a600]"><BarChart2 size={14}/> Trading View</div>
                 </div>
               </div>
 
               {/* Chart Area */}
               <div className="flex-1 bg-[#161a1e] relative p-2 lg:p-4 flex flex-col min-h-[300px] lg:min-h-0">
-                 <div className="flex-grow w-full h-full">
+                 {/* Timeframe & Chart Type Toolbar */}
+                 <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs font-medium">
+                    <div className="flex items-center gap-1">
+                      {(['live', ...TIMEFRAMES] as (Timeframe | 'live')[]).map(tf => (
+                        <button
+                          key={tf}
+                          onClick={() => setChartTimeframe(tf)}
+                          className={`px-2.5 py-1 rounded transition-colors ${chartTimeframe === tf ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-500 hover:text-[#EAECEF]'}`}
+                        >
+                          {tf === 'live' ? 'Live' : tf}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {(Object.keys(CHART_MODE_LABELS) as ChartMode[]).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => setChartMode(mode)}
+                          className={`px-2.5 py-1 rounded transition-colors ${chartMode === mode ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-500 hover:text-[#EAECEF]'}`}
+                        >
+                          {CHART_MODE_LABELS[mode]}
+                        </button>
+                      ))}
+                      <IndicatorPicker indicators={chartIndicators} onChange={setChartIndicators} />
+                    </div>
+                 </div>
+                 <div className="flex-grow w-full min-h-0">
                     <PriceChart 
-                      data={selectedTradeCoin.history} 
+                      data={selectedTradeChartData} 
                       color={selectedTradeCoin.color} 
                       height="100%"
                       detailed={true}
+                      mode={chartMode}
+                      candles={selectedTradeCandles}
+                      formatLabel={chartTimeframe === 'live' ? undefined : (time) => formatCandleTime(time, chartTimeframe)}
+                      indicators={chartIndicators}
                     />
                  </div>
               </div>
@@ -752,67 +1147,44 @@ function App() {
                 <div className="hidden md:flex gap-8 text-sm">
                    <div>
                       <div className="text-gray-500 text-xs mb-1">Your Balance</div>
-                      <div className="font-mono text-white">{selectedTradeCoin.balance.toLocaleString()} {selectedTradeCoin.symbol}</div>
+                      <div className="font-mono text-white">{getBalance(ledger, selectedTradeCoin.id).toLocaleString()} {selectedTradeCoin.symbol}</div>
                    </div>
                    <div>
                       <div className="text-gray-500 text-xs mb-1">Equity Value</div>
-                      <div className="font-mono text-white">${(selectedTradeCoin.balance * selectedTradeCoin.currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}</div>
+                      <div className="font-mono text-white">${(getBalance(ledger, selectedTradeCoin.id) * selectedTradeCoin.currentPrice).toLocaleString(undefined, {maximumFractionDigits: 2})}</div>
+                   </div>
+                   <div>
+                      <div className="text-gray-500 text-xs mb-1">Cash</div>
+                      <div className="font-mono text-white">{ledger.cash.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT</div>
                    </div>
                 </div>
 
                 <div className="flex items-center gap-4 w-full md:w-auto">
-                    {selectedTradeCoinId === 'USTC' && (
-                        <div className="flex flex-col md:flex-row gap-3 w-full">
-                            <div className="w-full md:w-48">
-                                <CountdownTimer />
-                            </div>
-                            <a 
-                                href="https://rsw-systems.com/?r=101716" 
-                                target="_blank" 
-                                rel="noreferrer"
-                                className="flex-1 md:flex-none px-8 bg-[#0ecb81] hover:bg-[#0ecb81]/90 text-white font-bold py-2.5 rounded flex items-center justify-center gap-2 transition-colors"
-                            >
-                                Buy Shares
-                            </a>
-                        </div>
-                    )}
-
-                    {selectedTradeCoinId === 'INSb' && (
-                        <button
-                            onClick={() => setBuyModalCoin('INSb')}
-                            className="w-full md:w-64 bg-[#3b82f6] hover:bg-[#2563eb] text-white font-bold py-3 rounded transition-colors flex items-center justify-center gap-2"
-                        >
-                            Buy INSb (Telegram) <TrendingUp size={16} />
-                        </button>
-                    )}
-
-                    {selectedTradeCoinId === 'HOT' && (
-                        <button
-                            onClick={() => window.open('https://app.hot-labs.org/link?624146uu', '_blank')}
-                            className="w-full md:w-64 bg-[#f97316] hover:bg-[#ea580c] text-white font-bold py-3 rounded transition-colors flex items-center justify-center gap-2 animate-pulse"
-                        >
-                            <Hammer size={18} /> Start Mining HOT
-                        </button>
-                    )}
+                    <SettlementAction
+                        coin={selectedTradeCoin}
+                        variant="panel"
+                        onOpenTicket={side => setOrderTicket({ coinId: selectedTradeCoin.id, side })}
+                    />
+                </div>
+              </div>
 
-                    {selectedTradeCoinId === 'KEEP' && (
-                        <button
-                            onClick={() => window.open('https://keepfiles.ru', '_blank')}
-                            className="w-full md:w-64 bg-[#8b5cf6] hover:bg-[#7c3aed] text-white font-bold py-3 rounded transition-colors flex items-center justify-center gap-2"
-                        >
-                            Buy KEEP <ExternalLink size={18} />
-                        </button>
-                    )}
+              <OrdersPanel
+                coin={selectedTradeCoin}
+                coins={coins}
+                ledger={ledger}
+                gatewayOrders={profileGatewayOrders}
+                onCancelOrder={handleCancelOrder}
+                onModifyOrder={handleModifyOrder}
+              />
+            </div>
 
-                    {selectedTradeCoinId === 'RBTC' && (
-                        <button
-                            onClick={() => setBuyModalCoin('RBTC')}
-                            className="w-full md:w-64 bg-[#ec4899] hover:bg-[#db2777] text-white font-bold py-3 rounded transition-colors flex items-center justify-center gap-2"
-                        >
-                            Buy RBTC (Telegram) <Rabbit size={16} />
-                        </button>
-                    )}
-                </div>
+            {/* Right Column: Order Book and Market Trades */}
+            <div className="w-full lg:w-72 bg-[#1e2329] border-l border-[#2b3139] flex flex-col order-3 lg:h-auto">
+              <div className="h-96 lg:h-auto lg:flex-1 min-h-0">
+                <OrderBookPanel book={orderBooks[selectedTradeCoin.id]} coin={selectedTradeCoin} />
+              </div>
+              <div className="h-64 border-t border-[#2b3139] flex-shrink-0">
+                <TradeTape coin={selectedTradeCoin} ticks={marketHistory[selectedTradeCoin.id]?.ticks ?? []} fills={ledger.fills} />
               </div>
             </div>
           </div>
@@ -926,124 +1298,179 @@ function App() {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {MOCK_NEWS.map(news => {
-                const coin = getCoin(news.relatedCoinId);
-                const coinColor = coin?.color || '#gray';
-                const isVideoPlaying = playingVideoId === news.id;
-                
-                return (
-                  <div key={news.id} className="group bg-[#1e2329] border border-[#2b3139] hover:border-gray-600 rounded-xl overflow-hidden flex flex-col transition-all duration-300 hover:shadow-xl hover:shadow-black/20">
+            <div className="flex flex-col xl:flex-row gap-6">
+              <div className="flex-1 min-w-0">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {newsFeed.map(news => {
+                    const coin = getCoin(news.relatedCoinId);
+                    const coinColor = coin?.color || '#gray';
+                    const isVideoPlaying = playingVideoId === news.id;
                     
-                    {/* Media Section */}
-                    <div className="h-48 bg-gray-900 relative overflow-hidden cursor-pointer" onClick={() => {
-                        if ((news.category === 'video' && news.videoUrl) || (news.category === 'video' && news.embedUrl)) {
-                            setPlayingVideoId(news.id);
-                        } else {
-                            handleNewsClick(news);
-                        }
-                    }}>
-                      {isVideoPlaying ? (
-                        news.embedUrl ? (
-                           <iframe 
-                             src={news.embedUrl} 
-                             className="w-full h-full"
-                             allow="autoplay"
-                             title={news.title}
-                           ></iframe>
-                        ) : news.videoUrl ? (
-                           <video 
-                              src={news.videoUrl} 
-                              controls 
-                              autoPlay 
-                              className="w-full h-full object-cover"
-                           />
-                        ) : null
-                      ) : (
-                         <>
-                            <img 
-                              src={news.imageUrl} 
-                              alt={news.title}
-                              className="w-full h-full object-cover opacity-80 group-hover:opacity-100 group-hover:scale-105 transition-all duration-500"
-                            />
-                            {/* Category Badge */}
-                            <div className="absolute top-3 left-3">
-                              <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider text-white shadow-sm flex items-center gap-1.5`} style={{ backgroundColor: news.category === 'video' ? '#ef4444' : news.category === 'website' ? '#3b82f6' : '#10b981' }}>
-                                {news.category === 'video' ? <PlayCircle size={10} /> : news.category === 'website' ? <Globe size={10} /> : <FileText size={10} />}
-                                {news.category.toUpperCase()}
-                              </span>
-                            </div>
-
-                            {/* Price Impact Badge */}
-                            <div className="absolute top-3 right-3">
-                               <div className={`flex items-center gap-1 px-2 py-1 rounded backdrop-blur-md text-[10px] font-bold border ${news.priceImpact.startsWith('+') ? 'bg-emerald-500/80 border-emerald-400/50 text-white' : 'bg-red-500/80 border-red-400/50 text-white'}`}>
-                                  {news.priceImpact.startsWith('+') ? <ArrowUpRight size={10} /> : <ArrowDownRight size={10} />}
-                                  {news.priceImpact}
-                               </div>
-                            </div>
+                    return (
+                      <div key={news.id} className="group bg-[#1e2329] border border-[#2b3139] hover:border-gray-600 rounded-xl overflow-hidden flex flex-col transition-all duration-300 hover:shadow-xl hover:shadow-black/20">
+                        
+                        {/* Media Section */}
+                        <div className="h-48 bg-gray-900 relative overflow-hidden cursor-pointer" onClick={() => {
+                            if ((news.category === 'video' && news.videoUrl) || (news.category === 'video' && news.embedUrl)) {
+                                setPlayingVideoId(news.id);
+                            } else {
+                                handleNewsClick(news);
+                            }
+                        }}>
+                          {isVideoPlaying ? (
+                            news.embedUrl ? (
+                               <iframe 
+                                 src={news.embedUrl} 
+                                 className="w-full h-full"
+                                 allow="autoplay"
+                                 title={news.title}
+                               ></iframe>
+                            ) : news.videoUrl ? (
+                               <video 
+                                  src={news.videoUrl} 
+                                  controls 
+                                  autoPlay 
+                                  className="w-full h-full object-cover"
+                               />
+                            ) : null
+                          ) : (
+                             <>
+                                {news.imageUrl && (
+                                  <img 
+                                    src={news.imageUrl} 
+                                    alt={news.title}
+                                    className="w-full h-full object-cover opacity-80 group-hover:opacity-100 group-hover:scale-105 transition-all duration-500"
+                                  />
+                                )}
+                                {/* Category Badge */}
+                                <div className="absolute top-3 left-3">
+                                  <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider text-white shadow-sm flex items-center gap-1.5`} style={{ backgroundColor: news.category === 'video' ? '#ef4444' : news.category === 'website' ? '#3b82f6' : '#10b981' }}>
+                                    {news.category === 'video' ? <PlayCircle size={10} /> : news.category === 'website' ? <Globe size={10} /> : <FileText size={10} />}
+                                    {news.category.toUpperCase()}
+                                  </span>
+                                </div>
 
-                            {/* Video Play Overlay */}
-                            {news.category === 'video' && (
-                              <div className="absolute inset-0 flex items-center justify-center bg-black/30 group-hover:bg-black/10 transition-colors">
-                                <PlayCircle className="w-16 h-16 text-white drop-shadow-lg opacity-90 group-hover:scale-110 transition-transform" />
-                              </div>
-                            )}
-                         </>
-                      )}
-                    </div>
+                                {/* Price Impact Badge */}
+                                <div className="absolute top-3 right-3">
+                                   <div className={`flex items-center gap-1 px-2 py-1 rounded backdrop-blur-md text-[10px] font-bold border ${news.priceImpact.startsWith('+') ? 'bg-emerald-500/80 border-emerald-400/50 text-white' : 'bg-red-500/80 border-red-400/50 text-white'}`}>
+                                      {news.priceImpact.startsWith('+') ? <ArrowUpRight size={10} /> : <ArrowDownRight size={10} />}
+                                      {news.priceImpact}
+                                   </div>
+                                </div>
 
-                    <div className="p-5 flex-grow flex flex-col">
-                      {/* Date */}
-                      <div className="text-xs text-gray-500 mb-3 flex items-center gap-2">
-                        <span>{news.date}</span>
-                        <span className="w-1 h-1 rounded-full bg-gray-600"></span>
-                        <span className="uppercase tracking-wide text-gray-500">Source: Official</span>
-                      </div>
+                                {/* Video Play Overlay */}
+                                {news.category === 'video' && (
+                                  <div className="absolute inset-0 flex items-center justify-center bg-black/30 group-hover:bg-black/10 transition-colors">
+                                    <PlayCircle className="w-16 h-16 text-white drop-shadow-lg opacity-90 group-hover:scale-110 transition-transform" />
+                                  </div>
+                                )}
+                             </>
+                          )}
+                        </div>
 
-                      {/* Content */}
-                      <h3 
-                        className="text-lg font-bold text-white mb-2 leading-snug group-hover:text-[#f7a600] transition-colors cursor-pointer"
-                        onClick={() => handleNewsClick(news)}
-                      >
-                        {news.title}
-                      </h3>
-                      <p className="text-sm text-gray-400 line-clamp-3 mb-6">
-                        {news.summary}
-                      </p>
-
-                      {/* Footer */}
-                      <div className="mt-auto pt-4 border-t border-[#2b3139] flex items-center justify-between">
-                        <div className="flex items-center gap-2" style={{ color: coinColor }}>
-                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: coinColor }}></span>
-                          <span className="text-xs font-bold font-mono">{news.relatedCoinId}</span>
+                        <div className="p-5 flex-grow flex flex-col">
+                          {/* Date */}
+                          <div className="text-xs text-gray-500 mb-3 flex items-center gap-2">
+                            <span>{news.date}</span>
+                            <span className="w-1 h-1 rounded-full bg-gray-600"></span>
+                            <span className="uppercase tracking-wide text-gray-500">Source: Official</span>
+                          </div>
+
+                          {/* Content */}
+                          <h3 
+                            className="text-lg font-bold text-white mb-2 leading-snug group-hover:text-[#f7a600] transition-colors cursor-pointer"
+                            onClick={() => handleNewsClick(news)}
+                          >
+                            {news.title}
+                          </h3>
+                          <p className="text-sm text-gray-400 line-clamp-3 mb-6">
+                            {news.summary}
+                          </p>
+
+                          {/* Footer */}
+                          <div className="mt-auto pt-4 border-t border-[#2b3139] flex items-center justify-between">
+                            <div className="flex items-center gap-2" style={{ color: coinColor }}>
+                              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: coinColor }}></span>
+                              <span className="text-xs font-bold font-mono">{news.relatedCoinId}</span>
+                            </div>
+                            
+                            <button 
+                              onClick={() => handleNewsClick(news)}
+                              className="text-xs font-semibold text-gray-300 group-hover:text-white flex items-center gap-1 transition-colors hover:underline"
+                            >
+                              {news.category === 'video' ? 'Play Video' : news.category === 'website' ? 'Visit Site' : 'Read Full Article'}
+                              <ExternalLink size={12} />
+                            </button>
+                          </div>
                         </div>
-                        
-                        <button 
-                          onClick={() => handleNewsClick(news)}
-                          className="text-xs font-semibold text-gray-300 group-hover:text-white flex items-center gap-1 transition-colors hover:underline"
-                        >
-                          {news.category === 'video' ? 'Play Video' : news.category === 'website' ? 'Visit Site' : 'Read Full Article'}
-                          <ExternalLink size={12} />
-                        </button>
                       </div>
-                    </div>
-                  </div>
-                );
-              })}
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Public admin intervention feed */}
+              {isAuditPublic && (
+                <div className="w-full xl:w-80 flex-shrink-0">
+                  <InterventionsFeed entries={auditLog} coins={coins} />
+                </div>
+              )}
             </div>
           </div>
         )}
       </main>
 
-      {(buyModalCoin === 'INSb' || buyModalCoin === 'RBTC') && (
-        <BuyModal 
+      {orderTicket && getCoin(orderTicket.coinId) && (
+        <OrderTicket 
+          key={`${orderTicket.coinId}-${orderTicket.side}`}
           isOpen={true}
-          onClose={() => setBuyModalCoin(null)}
-          currentPrice={getCoin(buyModalCoin)?.currentPrice || 0}
-          symbol={getCoin(buyModalCoin)?.symbol || ''}
+          onClose={() => setOrderTicket(null)}
+          coin={getCoin(orderTicket.coinId)!}
+          cash={getAvailableCash(ledger)}
+          balance={getAvailableBalance(ledger, orderTicket.coinId)}
+          initialSide={orderTicket.side}
+          book={orderBooks[orderTicket.coinId]}
+          onSubmit={(request) => handlePlaceOrder(orderTicket.coinId, request)}
+          onSubmitTelegram={(side, quantity) => handleTelegramOrder(orderTicket.coinId, side, quantity)}
         />
       )}
 
+      <AlertToasts
+        toasts={alertToasts}
+        coins={coins}
+        onOpen={handleOpenAlert}
+        onDismiss={id => setAlertToasts(current => current.filter(t => t.id !== id))}
+      />
+
+      {isAdminOpen && (adminSessionExpiry ? (
+        <AdminPanel
+          coins={coins}
+          onUpdateCoin={handleUpdateCoin}
+          onUpdateBalance={handleUpdateBalance}
+          onListCoin={handleListCoin}
+          onPublishNews={handlePublishNews}
+          gatewayOrders={gatewayOrders}
+          onResolveGatewayOrder={handleResolveGatewayOrder}
+          profiles={profiles}
+          ledgers={ledgers}
+          activeProfileId={activeProfileId}
+          onSwitchProfile={handleSwitchProfile}
+          onDeleteProfile={handleDeleteProfile}
+          schedules={priceSchedules}
+          onAddSchedule={handleAddSchedule}
+          onCancelSchedule={handleCancelSchedule}
+          auditLog={auditLog}
+          isAuditLogPublic={isAuditPublic}
+          onToggleAuditLogPublic={handleToggleAuditPublic}
+          onResetMarket={handleResetMarket}
+          onClose={closeAdmin}
+          onLogout={handleAdminLogout}
+          sessionExpiresAt={adminSessionExpiry}
+        />
+      ) : (
+        <AdminLogin onSuccess={setAdminSessionExpiry} onClose={closeAdmin} />
+      ))}
+
     </div>
   );
 }
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { getLockoutRemaining, login } from '../services/adminAuth';
+
+interface AdminLoginProps {
+  onSuccess: (expiresAt: number) => void;
+  onClose: () => void;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ onSuccess, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockoutRemaining, setLockoutRemaining] = useState(getLockoutRemaining());
+
+  // Count the lockout down so the form unlocks without a reload
+  useEffect(() => {
+    if (lockoutRemaining <= 0) return;
+    const timer = setTimeout(() => setLockoutRemaining(getLockoutRemaining()), 1000);
+    return () => clearTimeout(timer);
+  }, [lockoutRemaining]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isChecking) return;
+    setIsChecking(true);
+    try {
+      const result = await login(passphrase);
+      if (result.ok === true) {
+        onSuccess(result.expiresAt);
+      } else {
+        setError(result.error);
+        setLockoutRemaining(getLockoutRemaining());
+      }
+    } catch (err) {
+      // crypto.subtle only exists on secure origins (HTTPS or localhost)
+      console.warn('Admin login failed', err);
+      setError('The passphrase could not be checked. Open the app over HTTPS or on localhost.');
+    } finally {
+      setIsChecking(false);
+      setPassphrase('');
+    }
+  };
+
+  const isLocked = lockoutRemaining > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-sm p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <div className="bg-purple-500/20 p-2 rounded-lg text-purple-400">
+            <Lock size={24} />
+          </div>
+          <h2 className="text-2xl font-bold text-white">Admin Access</h2>
+        </div>
+
+        <div>
+          <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
+            Passphrase
+          </label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={isLocked}
+            autoFocus
+            className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all disabled:opacity-50"
+          />
+        </div>
+
+        {isLocked ? (
+          <p className="text-xs text-red-400">Locked. Try again in {Math.ceil(lockoutRemaining / 1000)}s.</p>
+        ) : error && (
+          <p className="text-xs text-red-400">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isLocked || !passphrase || isChecking}
+            className="flex-1 px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium flex items-center justify-center"
+          >
+            {isChecking ? <Loader2 size={18} className="animate-spin" /> : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AdminLogin;
@@ -1,14 +1,67 @@
-import React from 'react';
-import { Settings, Save } from 'lucide-react';
-import { CoinData, CoinId } from '../types';
+import React, { useState } from 'react';
+import { Settings, Save, Dices, RotateCcw } from 'lucide-react';
+import { AuditEntry, CoinData, CoinId, CoinStatus, GatewayOrder, Ledger, PriceModelType, PriceSchedule, Profile } from '../types';
+import { DEFAULT_MODEL_PARAMS, PRICE_MODEL_LABELS } from '../services/priceModels';
+import { getSeed, isSeedPinned, restartWithSeed } from '../services/random';
+import { COIN_STATUS_LABELS, getCoinStatus, NewListing } from '../services/listings';
+import { getBalance } from '../services/ledger';
+import PriceSchedulePanel from './PriceSchedulePanel';
+import ListingForm from './ListingForm';
+import NewsForm from './NewsForm';
+import OrderDesk from './OrderDesk';
+import ProfilesAdmin from './ProfilesAdmin';
+import { GatewayResolution } from '../services/telegramGateway';
+import { NewsDraft } from '../services/news';
+import AuditLog from './AuditLog';
 
 interface AdminPanelProps {
   coins: CoinData[];
-  onUpdateCoin: (id: CoinId, updates: Partial<CoinData>) => void;
+  onUpdateCoin: (id: CoinId, updates: Partial<CoinData>, reason?: string) => void;
+  onUpdateBalance: (id: CoinId, balance: number, reason?: string) => void; // Active profile's wallet
+  profiles: Profile[];
+  ledgers: Record<string, Ledger>;
+  activeProfileId: string;
+  onSwitchProfile: (profileId: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onListCoin: (listing: NewListing) => { ok: true } | { ok: false; error: string };
+  onPublishNews: (draft: NewsDraft) => { ok: true } | { ok: false; error: string };
+  gatewayOrders: GatewayOrder[];
+  onResolveGatewayOrder: (id: string, resolution: GatewayResolution) => { ok: true } | { ok: false; error: string };
+  schedules: PriceSchedule[];
+  onAddSchedule: (schedule: Omit<PriceSchedule, 'id'>) => void;
+  onCancelSchedule: (id: string) => void;
+  auditLog: AuditEntry[];
+  isAuditLogPublic: boolean;
+  onToggleAuditLogPublic: (isPublic: boolean) => void;
+  onResetMarket: () => void;
   onClose: () => void;
+  onLogout: () => void;
+  sessionExpiresAt: number;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ coins, onUpdateCoin, onClose }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ coins, onUpdateCoin, onUpdateBalance, profiles, ledgers, activeProfileId, onSwitchProfile, onDeleteProfile, onListCoin, onPublishNews, gatewayOrders, onResolveGatewayOrder, schedules, onAddSchedule, onCancelSchedule, auditLog, isAuditLogPublic, onToggleAuditLogPublic, onResetMarket, onClose, onLogout, sessionExpiresAt }) => {
+  const [seedInput, setSeedInput] = useState(getSeed());
+  // Unsaved balance/price edits per coin; applied together so each change is audited once
+  const [drafts, setDrafts] = useState<Record<string, { balance?: string; basePrice?: string; reason?: string }>>({});
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const activeLedger = ledgers[activeProfileId];
+
+  const updateDraft = (id: CoinId, field: 'balance' | 'basePrice' | 'reason', value: string) => {
+    setDrafts(current => ({ ...current, [id]: { ...current[id], [field]: value } }));
+  };
+
+  const applyDraft = (coin: CoinData) => {
+    const draft = drafts[coin.id];
+    if (!draft) return;
+    const reason = draft.reason?.trim() || undefined;
+    if (draft.balance !== undefined) onUpdateBalance(coin.id, parseFloat(draft.balance) || 0, reason);
+    if (draft.basePrice !== undefined) onUpdateCoin(coin.id, { basePrice: parseFloat(draft.basePrice) || 0 }, reason);
+    setDrafts(current => {
+      const { [coin.id]: _, ...rest } = current;
+      return rest;
+    });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="bg-gray-900 border border-gray-700 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
@@ -19,38 +72,114 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ coins, onUpdateCoin, onClose })
             </div>
             <h2 className="text-2xl font-bold text-white">Market Control</h2>
           </div>
-          <button 
-            onClick={onClose}
-            className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors text-sm font-medium"
-          >
-            Close Admin
-          </button>
+          <div className="flex items-center gap-3">
+            <span className="hidden md:block text-xs text-gray-500">
+              Session until {new Date(sessionExpiresAt).toLocaleTimeString()}
+            </span>
+            <button 
+              onClick={onLogout}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors text-sm font-medium"
+            >
+              Log Out
+            </button>
+            <button 
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors text-sm font-medium"
+            >
+              Close Admin
+            </button>
+          </div>
         </div>
 
         <div className="p-6 space-y-8">
           <p className="text-gray-400 text-sm bg-gray-800/50 p-4 rounded-lg border border-gray-700">
-            Adjusting the <strong>Base Price</strong> will shift the real-time simulation center point. 
-            The chart will immediately react to the new baseline, fluctuating ±2% around it.
+            Adjusting the <strong>Base Price</strong> will shift the real-time simulation center point instantly; 
+            use a <strong>Scheduled Price Change</strong> to ramp it gradually instead. 
+            Each coin moves according to its <strong>Price Model</strong>; mean-reverting models are pulled back toward the base price.
           </p>
 
+          {/* Simulation Seed */}
+          <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+            <div className="flex items-center gap-3 mb-4">
+              <Dices size={18} className="text-purple-400" />
+              <h3 className="text-lg font-bold text-white">Simulation Seed</h3>
+              <span className="text-xs text-gray-500">{isSeedPinned() ? 'Pinned via URL' : 'Random for this session'}</span>
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                className="flex-1 bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono"
+              />
+              <button
+                onClick={() => restartWithSeed(seedInput)}
+                disabled={!seedInput.trim()}
+                className="px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium"
+              >
+                Restart with Seed
+              </button>
+              {isSeedPinned() && (
+                <button
+                  onClick={() => restartWithSeed(null)}
+                  className="px-4 py-2.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors text-sm font-medium"
+                >
+                  Unpin
+                </button>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              The same seed replays the same price paths and voxel scenes. Restarting reloads the app.
+            </p>
+          </div>
+
+          <OrderDesk orders={gatewayOrders} coins={coins} profiles={profiles} onResolve={onResolveGatewayOrder} />
+
+          <ProfilesAdmin
+            profiles={profiles}
+            ledgers={ledgers}
+            coins={coins}
+            activeProfileId={activeProfileId}
+            onSwitch={onSwitchProfile}
+            onDelete={onDeleteProfile}
+          />
+
+          <ListingForm onListCoin={onListCoin} />
+
+          <NewsForm coins={coins} onPublish={onPublishNews} />
+
           <div className="grid gap-6">
             {coins.map((coin) => (
-              <div key={coin.id} className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+              <div key={coin.id} className={`bg-gray-800/40 rounded-xl border border-gray-700 p-5 ${getCoinStatus(coin) === 'delisted' ? 'opacity-60' : ''}`}>
                 <div className="flex items-center gap-3 mb-4">
                   <div className={`w-3 h-3 rounded-full`} style={{ backgroundColor: coin.color }} />
-                  <h3 className="text-lg font-bold text-white">{coin.name} ({coin.symbol})</h3>
+                  <h3 className="text-lg font-bold text-white flex-1">{coin.name} ({coin.symbol})</h3>
+                  <select
+                    value={getCoinStatus(coin)}
+                    onChange={(e) => {
+                      const status = e.target.value as CoinStatus;
+                      if (status !== 'delisted' || window.confirm(`Delist ${coin.symbol}? It disappears from the markets and its open orders are cancelled.`)) {
+                        onUpdateCoin(coin.id, { status });
+                      }
+                    }}
+                    className="bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm"
+                  >
+                    {(Object.keys(COIN_STATUS_LABELS) as CoinStatus[]).map(status => (
+                      <option key={status} value={status}>{COIN_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {/* Balance Control */}
                   <div>
                     <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
-                      Portfolio Balance (qty)
+                      Balance of {activeProfile?.name} (qty)
                     </label>
                     <input
                       type="number"
-                      value={coin.balance}
-                      onChange={(e) => onUpdateCoin(coin.id, { balance: parseFloat(e.target.value) || 0 })}
+                      value={drafts[coin.id]?.balance ?? getBalance(activeLedger, coin.id)}
+                      onChange={(e) => updateDraft(coin.id, 'balance', e.target.value)}
                       className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all"
                     />
                   </div>
@@ -58,29 +187,123 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ coins, onUpdateCoin, onClose })
                   {/* Price Control */}
                   <div>
                     <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
-                      Target Base Price ($)
+                      Base Price ($)
                     </label>
                     <div className="relative">
                       <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
                       <input
                         type="number"
                         step="0.0001"
-                        value={coin.basePrice}
-                        onChange={(e) => onUpdateCoin(coin.id, { basePrice: parseFloat(e.target.value) || 0 })}
+                        value={drafts[coin.id]?.basePrice ?? coin.basePrice}
+                        onChange={(e) => updateDraft(coin.id, 'basePrice', e.target.value)}
                         className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg pl-8 pr-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono"
                       />
                     </div>
                     <div className="mt-2 flex justify-between text-xs text-gray-500">
-                      <span>Sim Range:</span>
+                      <span>Live Price:</span>
                       <span className="font-mono">
-                        ${(coin.basePrice * 0.98).toFixed(4)} - ${(coin.basePrice * 1.02).toFixed(4)}
+                        ${coin.currentPrice.toFixed(8)}{coin.regime === 'turbulent' ? ' (turbulent)' : ''}
                       </span>
                     </div>
                   </div>
                 </div>
+
+                {/* Apply with Reason */}
+                <div className="flex flex-col md:flex-row gap-3 mt-4">
+                  <input
+                    type="text"
+                    value={drafts[coin.id]?.reason ?? ''}
+                    onChange={(e) => updateDraft(coin.id, 'reason', e.target.value)}
+                    placeholder="Reason for change (optional, shown in the audit log)"
+                    className="flex-1 bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm"
+                  />
+                  <button
+                    onClick={() => applyDraft(coin)}
+                    disabled={drafts[coin.id]?.balance === undefined && drafts[coin.id]?.basePrice === undefined}
+                    className="px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2"
+                  >
+                    <Save size={16} /> Apply
+                  </button>
+                </div>
+
+                {/* Price Model Control */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
+                      Price Model
+                    </label>
+                    <select
+                      value={coin.model.type}
+                      onChange={(e) => onUpdateCoin(coin.id, { model: { ...DEFAULT_MODEL_PARAMS[e.target.value as PriceModelType] } })}
+                      className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm"
+                    >
+                      {(Object.keys(PRICE_MODEL_LABELS) as PriceModelType[]).map(type => (
+                        <option key={type} value={type}>{PRICE_MODEL_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
+                      Drift (per tick)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={coin.model.drift}
+                      onChange={(e) => onUpdateCoin(coin.id, { model: { ...coin.model, drift: parseFloat(e.target.value) || 0 } })}
+                      className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1.5">
+                      Volatility (per tick)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={coin.model.volatility}
+                      onChange={(e) => onUpdateCoin(coin.id, { model: { ...coin.model, volatility: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                      className="w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all font-mono"
+                    />
+                  </div>
+                </div>
+
+                <PriceSchedulePanel
+                  coin={coin}
+                  schedules={schedules.filter(s => s.coinId === coin.id)}
+                  onAddSchedule={onAddSchedule}
+                  onCancelSchedule={onCancelSchedule}
+                />
               </div>
             ))}
           </div>
+
+          <AuditLog
+            entries={auditLog}
+            coins={coins}
+            profiles={profiles}
+            isPublic={isAuditLogPublic}
+            onTogglePublic={onToggleAuditLogPublic}
+          />
+
+          {/* Saved State */}
+          <div className="bg-red-900/10 rounded-xl border border-red-500/20 p-5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-bold text-white">Reset to Defaults</h3>
+              <p className="text-xs text-gray-400 mt-1">
+                Prices, listings, history and every profile's wallet are saved in this browser. Resetting restores the initial coin set, resets all profiles to their starting balances and clears the saved state.
+              </p>
+            </div>
+            <button
+              onClick={() => {
+                if (window.confirm('Reset all coins to their default prices and history, and every profile to its starting balances?')) onResetMarket();
+              }}
+              className="px-4 py-2.5 bg-red-600 hover:bg-red-500 text-white rounded-lg transition-colors text-sm font-medium flex items-center justify-center gap-2 flex-shrink-0"
+            >
+              <RotateCcw size={16} /> Reset Market
+            </button>
+          </div>
         </div>
       </div>
     </div>
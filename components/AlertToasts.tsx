@@ -0,0 +1,48 @@
+import React, { useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { AlertEvent, CoinData } from '../types';
+import { ALERT_TOAST_DURATION } from '../constants';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  coins: CoinData[];
+  onOpen: (event: AlertEvent) => void;
+  onDismiss: (id: string) => void;
+}
+
+const AlertToast: React.FC<{ event: AlertEvent; coin?: CoinData; onOpen: () => void; onDismiss: () => void }> = ({ event, coin, onOpen, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, ALERT_TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <div className="pointer-events-auto w-80 bg-[#1e2329] border border-[#2b3139] border-l-4 rounded-lg shadow-xl flex items-start gap-3 p-3 animate-in slide-in-from-right duration-200" style={{ borderLeftColor: coin?.color ?? '#f7a600' }}>
+      <BellRing size={16} className="text-[#f7a600] flex-shrink-0 mt-0.5" />
+      <button onClick={onOpen} className="flex-1 text-left text-sm">
+        <div className="text-[#EAECEF]">{event.message}</div>
+        <div className="text-[10px] text-gray-500 mt-0.5">{new Date(event.time).toLocaleTimeString()} · click to trade</div>
+      </button>
+      <button onClick={onDismiss} className="text-gray-500 hover:text-[#EAECEF] transition-colors" title="Dismiss">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+// Stack of fired-alert toasts in the corner; each dismisses itself after a while
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, coins, onOpen, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 pointer-events-none">
+    {toasts.map(event => (
+      <AlertToast
+        key={event.id}
+        event={event}
+        coin={coins.find(c => c.id === event.coinId)}
+        onOpen={() => onOpen(event)}
+        onDismiss={() => onDismiss(event.id)}
+      />
+    ))}
+  </div>
+);
+
+export default AlertToasts;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, BellRing, Trash2 } from 'lucide-react';
+import { AlertCondition, AlertEvent, CoinData, PriceAlert } from '../types';
+import { ALERT_CONDITION_LABELS, ALERT_WINDOWS, AlertDraft, describeAlert, formatAlertWindow, isNotificationSupported } from '../services/alerts';
+
+interface AlertsPanelProps {
+  coin: CoinData; // New alerts are set on this coin
+  coins: CoinData[];
+  alerts: PriceAlert[];
+  history: AlertEvent[];
+  notificationsEnabled: boolean;
+  onCreate: (draft: AlertDraft) => { ok: true } | { ok: false; error: string };
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClearHistory: () => void;
+  onToggleNotifications: (enabled: boolean) => void;
+}
+
+type Tab = 'alerts' | 'history';
+
+// Trade view dropdown for setting, switching off and reviewing price alerts
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ coin, coins, alerts, history, notificationsEnabled, onCreate, onToggle, onDelete, onClearHistory, onToggleNotifications }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<Tab>('alerts');
+  const [condition, setCondition] = useState<AlertCondition>('above');
+  const [threshold, setThreshold] = useState('');
+  const [windowMinutes, setWindowMinutes] = useState(ALERT_WINDOWS[1]);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeCount = alerts.filter(a => a.active).length;
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleCreate = () => {
+    const result = onCreate({ coinId: coin.id, condition, threshold: parseFloat(threshold), windowMinutes });
+    if (result.ok === false) {
+      setError(result.error);
+      return;
+    }
+    setThreshold('');
+    setError(null);
+  };
+
+  const getSymbol = (coinId: string) => coins.find(c => c.id === coinId)?.symbol ?? coinId;
+  const inputClass = "bg-[#0b0e11] border border-[#2b3139] rounded px-2 py-1 text-[#EAECEF] outline-none focus:border-[#f7a600]";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded text-xs transition-colors ${isOpen || activeCount > 0 ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-400 hover:text-[#EAECEF]'}`}
+        title="Price alerts"
+      >
+        {activeCount > 0 ? <BellRing size={14} /> : <Bell size={14} />} Alerts{activeCount > 0 ? ` (${activeCount})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-80 bg-[#1e2329] border border-[#2b3139] rounded-lg shadow-xl text-xs">
+          <div className="p-3 space-y-2 border-b border-[#2b3139]">
+            <div className="font-bold text-[#EAECEF]">New {coin.symbol} alert</div>
+            <div className="flex gap-2">
+              <select value={condition} onChange={(e) => { setCondition(e.target.value as AlertCondition); setError(null); }} className={`${inputClass} flex-1`}>
+                {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(c => (
+                  <option key={c} value={c}>{ALERT_CONDITION_LABELS[c]}</option>
+                ))}
+              </select>
+              {condition !== 'news' && (
+                <input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => { setThreshold(e.target.value); setError(null); }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder={condition === 'move' ? '%' : coin.currentPrice.toFixed(coin.basePrice < 1 ? 6 : 4)}
+                  className={`${inputClass} w-28 font-mono`}
+                />
+              )}
+            </div>
+            {condition === 'move' && (
+              <div className="flex items-center gap-1">
+                <span className="text-gray-500 mr-1">Within</span>
+                {ALERT_WINDOWS.map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => setWindowMinutes(minutes)}
+                    className={`px-2 py-0.5 rounded transition-colors ${windowMinutes === minutes ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-500 hover:text-[#EAECEF]'}`}
+                  >
+                    {formatAlertWindow(minutes)}
+                  </button>
+                ))}
+              </div>
+            )}
+            {condition === 'news' && <div className="text-gray-500">Fires when an article about {coin.symbol} is published.</div>}
+            {error && <div className="text-[#f6465d]">{error}</div>}
+            <div className="flex items-center justify-between">
+              <label className={`flex items-center gap-1.5 ${isNotificationSupported() ? 'text-gray-400 cursor-pointer' : 'text-gray-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={notificationsEnabled}
+                  disabled={!isNotificationSupported()}
+                  onChange={(e) => onToggleNotifications(e.target.checked)}
+                  className="accent-[#f7a600]"
+                />
+                Browser notifications
+              </label>
+              <button onClick={handleCreate} className="px-3 py-1 bg-[#f7a600] hover:bg-[#d97706] text-black font-bold rounded transition-colors">
+                Add Alert
+              </button>
+            </div>
+          </div>
+
+          <div className="px-3 border-b border-[#2b3139] flex gap-4 font-bold">
+            {(['alerts', 'history'] as Tab[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`py-2 border-b-2 transition-colors ${tab === t ? 'text-[#f7a600] border-[#f7a600]' : 'text-gray-400 border-transparent hover:text-[#EAECEF]'}`}
+              >
+                {t === 'alerts' ? `My Alerts (${alerts.length})` : 'History'}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-64 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {tab === 'alerts' && (alerts.length === 0 ? (
+              <p className="text-gray-500 px-1 py-2">No alerts set.</p>
+            ) : alerts.slice().reverse().map(alert => {
+              const alertCoin = coins.find(c => c.id === alert.coinId);
+              return (
+                <div key={alert.id} className="flex items-center gap-2 bg-[#161a1e] border border-[#2b3139] rounded px-2 py-1.5">
+                  <span className="font-bold w-12 truncate" style={{ color: alertCoin?.color }}>{getSymbol(alert.coinId)}</span>
+                  <span className={`flex-1 ${alert.active ? 'text-[#EAECEF]' : 'text-gray-500'}`}>
+                    {alertCoin ? describeAlert(alert, alertCoin) : ALERT_CONDITION_LABELS[alert.condition]}
+                    {alert.firedAt && <span className="block text-[10px] text-[#f7a600]">Fired {new Date(alert.firedAt).toLocaleString()}</span>}
+                  </span>
+                  <button
+                    onClick={() => onToggle(alert.id)}
+                    className={`px-1.5 rounded text-[10px] uppercase border ${alert.active ? 'text-[#0ecb81] border-[#0ecb81]/30' : 'text-gray-500 border-gray-700 hover:text-[#EAECEF]'}`}
+                    title={alert.active ? 'Switch off' : 'Re-enable'}
+                  >
+                    {alert.active ? 'On' : 'Off'}
+                  </button>
+                  <button onClick={() => onDelete(alert.id)} className="text-gray-500 hover:text-[#f6465d] transition-colors" title="Delete">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              );
+            }))}
+
+            {tab === 'history' && (history.length === 0 ? (
+              <p className="text-gray-500 px-1 py-2">No alerts have fired yet.</p>
+            ) : (
+              <>
+                {history.slice().reverse().map(event => (
+                  <div key={event.id} className="px-2 py-1.5 border-b border-[#2b3139]/50 last:border-0">
+                    <div className="text-[#EAECEF]">{event.message}</div>
+                    <div className="text-[10px] text-gray-500">{new Date(event.time).toLocaleString()}</div>
+                  </div>
+                ))}
+                <button onClick={onClearHistory} className="w-full py-1 text-gray-500 hover:text-[#EAECEF] transition-colors">
+                  Clear history
+                </button>
+              </>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
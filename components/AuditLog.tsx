@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ScrollText, Search } from 'lucide-react';
+import { AuditEntry, AuditField, CoinData, CoinId, Profile } from '../types';
+import { AUDIT_FIELD_LABELS, formatAuditValue, getAuditChangePercent } from '../services/auditLog';
+
+interface AuditLogProps {
+  entries: AuditEntry[];
+  coins: CoinData[];
+  profiles: Profile[];
+  isPublic: boolean;
+  onTogglePublic: (isPublic: boolean) => void;
+}
+
+const AuditLog: React.FC<AuditLogProps> = ({ entries, coins, profiles, isPublic, onTogglePublic }) => {
+  const [coinFilter, setCoinFilter] = useState<CoinId | 'all'>('all');
+  const [fieldFilter, setFieldFilter] = useState<AuditField | 'all'>('all');
+  const [search, setSearch] = useState('');
+
+  const query = search.trim().toLowerCase();
+  const filtered = entries
+    .filter(e => coinFilter === 'all' || e.coinId === coinFilter)
+    .filter(e => fieldFilter === 'all' || e.field === fieldFilter)
+    .filter(e => !query || (e.reason || '').toLowerCase().includes(query))
+    .slice()
+    .reverse(); // Newest first
+
+  const selectClass = "bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm";
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <ScrollText size={18} className="text-purple-400" />
+          <h3 className="text-lg font-bold text-white">Intervention Log</h3>
+          <span className="text-xs text-gray-500">{entries.length} entries</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={isPublic}
+            onChange={(e) => onTogglePublic(e.target.checked)}
+            className="accent-purple-500"
+          />
+          Show publicly next to the news
+        </label>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <select value={coinFilter} onChange={(e) => setCoinFilter(e.target.value as CoinId | 'all')} className={selectClass}>
+          <option value="all">All coins</option>
+          {coins.map(coin => <option key={coin.id} value={coin.id}>{coin.symbol}</option>)}
+        </select>
+        <select value={fieldFilter} onChange={(e) => setFieldFilter(e.target.value as AuditField | 'all')} className={selectClass}>
+          <option value="all">All fields</option>
+          {(Object.keys(AUDIT_FIELD_LABELS) as AuditField[]).map(field => (
+            <option key={field} value={field}>{AUDIT_FIELD_LABELS[field]}</option>
+          ))}
+        </select>
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search reasons"
+            className={`${selectClass} w-full pl-8`}
+          />
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="text-center text-xs text-gray-500 py-6 border border-dashed border-gray-700 rounded-lg">
+          No interventions recorded.
+        </div>
+      ) : (
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {filtered.map(entry => {
+            const change = getAuditChangePercent(entry);
+            return (
+              <div key={entry.id} className="bg-gray-950/60 border border-gray-700 rounded-lg px-3 py-2 text-xs">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                  <span className="font-bold text-white">{entry.coinId}</span>
+                  <span className="text-gray-400">
+                    {AUDIT_FIELD_LABELS[entry.field]}
+                    {entry.profileId && ` · ${profiles.find(p => p.id === entry.profileId)?.name ?? 'Deleted profile'}`}
+                  </span>
+                  <span className="font-mono text-gray-300">
+                    {formatAuditValue(entry, entry.previousValue)} → {formatAuditValue(entry, entry.newValue)}
+                  </span>
+                  {change !== null && (
+                    <span className={`font-mono ${change >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+                    </span>
+                  )}
+                  {entry.source === 'schedule' && (
+                    <span className="px-1.5 rounded bg-purple-500/10 text-purple-300 border border-purple-500/20 text-[10px] uppercase">Scheduled</span>
+                  )}
+                </div>
+                {entry.reason && <div className="mt-1 text-gray-400 italic">{entry.reason}</div>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -2,6 +2,7 @@
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { createRng } from '../services/random';
 
 const CONFIG = {
     colors: {
@@ -24,6 +25,7 @@ const GafferScene = () => {
     useEffect(() => {
         if (!containerRef.current) return;
         const container = containerRef.current;
+        const rng = createRng('gaffer');
         const width = container.clientWidth;
         const height = container.clientHeight;
 
@@ -114,7 +116,7 @@ const GafferScene = () => {
                             orgX: posX,
                             orgY: posY,
                             orgZ: posZ,
-                            phase: Math.random() * Math.PI * 2
+                            phase: rng() * Math.PI * 2
                         };
 
                         group.add(mesh);
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Sigma, Plus, X } from 'lucide-react';
+import { IndicatorConfig, IndicatorType } from '../types';
+import { createIndicator, INDICATOR_DEFINITIONS } from '../services/indicators';
+
+interface IndicatorPickerProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+// Toolbar dropdown for adding, tuning and removing chart indicators
+const IndicatorPicker: React.FC<IndicatorPickerProps> = ({ indicators, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleAdd = (type: IndicatorType) => {
+    onChange([...indicators, createIndicator(type, indicators)]);
+  };
+
+  const handleParamChange = (id: string, key: string, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    onChange(indicators.map(ind => {
+      if (ind.id !== id) return ind;
+      const param = INDICATOR_DEFINITIONS[ind.type].params.find(p => p.key === key);
+      if (!param) return ind;
+      const rounded = param.integer ? Math.round(parsed) : parsed;
+      return { ...ind, params: { ...ind.params, [key]: Math.min(param.max, Math.max(param.min, rounded)) } };
+    }));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(indicators.filter(ind => ind.id !== id));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-2.5 py-1 rounded transition-colors ${isOpen || indicators.length > 0 ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-500 hover:text-[#EAECEF]'}`}
+      >
+        <Sigma size={12} /> Indicators{indicators.length > 0 ? ` (${indicators.length})` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-30 w-72 bg-[#1e2329] border border-[#2b3139] rounded-lg shadow-xl p-3 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(INDICATOR_DEFINITIONS) as IndicatorType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => handleAdd(type)}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-[#2b3139] hover:bg-[#363c45] text-[#EAECEF] transition-colors"
+              >
+                <Plus size={10} /> {INDICATOR_DEFINITIONS[type].label}
+              </button>
+            ))}
+          </div>
+
+          {indicators.length === 0 ? (
+            <p className="text-gray-500">No indicators on the chart.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+              {indicators.map(ind => {
+                const definition = INDICATOR_DEFINITIONS[ind.type];
+                return (
+                  <div key={ind.id} className="flex items-center gap-2 bg-[#161a1e] border border-[#2b3139] rounded px-2 py-1.5">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: ind.color }}></span>
+                    <span className="text-[#EAECEF] flex-1">{definition.label}</span>
+                    {definition.params.map(param => (
+                      <input
+                        key={param.key}
+                        type="number"
+                        title={param.label}
+                        min={param.min}
+                        max={param.max}
+                        step={param.step ?? 1}
+                        value={ind.params[param.key]}
+                        onChange={(e) => handleParamChange(ind.id, param.key, e.target.value)}
+                        className="w-12 bg-[#0b0e11] border border-[#2b3139] rounded px-1 py-0.5 font-mono text-[#EAECEF] outline-none focus:border-[#f7a600]"
+                      />
+                    ))}
+                    <button onClick={() => handleRemove(ind.id)} className="text-gray-500 hover:text-[#f6465d] transition-colors" title="Remove">
+                      <X size={12} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorPicker;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ShieldAlert, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { AuditEntry, CoinData } from '../types';
+import { AUDIT_FIELD_LABELS, formatAuditValue, getAuditChangePercent } from '../services/auditLog';
+
+interface InterventionsFeedProps {
+  entries: AuditEntry[];
+  coins: CoinData[];
+  limit?: number;
+}
+
+// Public, read-only view of the admin audit log shown beside the news
+const InterventionsFeed: React.FC<InterventionsFeedProps> = ({ entries, coins, limit = 20 }) => {
+  const recent = entries.slice(-limit).reverse();
+
+  return (
+    <div className="bg-[#1e2329] rounded-xl border border-[#2b3139] p-5">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert size={16} className="text-[#f7a600]" />
+        <h3 className="text-sm font-bold text-gray-300 uppercase tracking-wider">Market Interventions</h3>
+      </div>
+
+      {recent.length === 0 ? (
+        <p className="text-xs text-gray-500">No admin interventions have been recorded.</p>
+      ) : (
+        <div className="space-y-3">
+          {recent.map(entry => {
+            const coin = coins.find(c => c.id === entry.coinId);
+            const change = getAuditChangePercent(entry);
+            const isUp = entry.newValue >= entry.previousValue;
+            return (
+              <div key={entry.id} className="border-b border-[#2b3139] last:border-0 pb-3 last:pb-0">
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: coin?.color || '#6b7280' }}></span>
+                    <span className="font-bold font-mono text-white">{entry.coinId}</span>
+                    <span className="text-gray-500">{AUDIT_FIELD_LABELS[entry.field]}</span>
+                  </div>
+                  {change !== null && (
+                    <span className={`flex items-center gap-0.5 font-mono font-bold ${isUp ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>
+                      {isUp ? <ArrowUpRight size={12} /> : <ArrowDownRight size={12} />}
+                      {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs font-mono text-gray-400">
+                  {formatAuditValue(entry, entry.previousValue)} → {formatAuditValue(entry, entry.newValue)}
+                </div>
+                {entry.reason && <div className="text-xs text-gray-400 mt-1">{entry.reason}</div>}
+                <div className="text-[10px] text-gray-600 mt-1">{new Date(entry.timestamp).toLocaleString()}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterventionsFeed;
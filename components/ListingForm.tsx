@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { PlusCircle } from 'lucide-react';
+import { PriceModelType, SettlementKind } from '../types';
+import { PRICE_MODEL_LABELS } from '../services/priceModels';
+import { SETTLEMENT_KIND_LABELS } from '../services/settlement';
+import { NewListing } from '../services/listings';
+
+interface ListingFormProps {
+  onListCoin: (listing: NewListing) => { ok: true } | { ok: false; error: string };
+}
+
+const EMPTY_LISTING: NewListing = {
+  name: '',
+  symbol: '',
+  description: '',
+  color: '#f7a600',
+  initialPrice: 0,
+  modelType: 'gbm',
+  settlementKind: 'simulated',
+  settlementUrl: '',
+};
+
+// Admin form for listing a new asset at runtime
+const ListingForm: React.FC<ListingFormProps> = ({ onListCoin }) => {
+  const [listing, setListing] = useState<NewListing>(EMPTY_LISTING);
+  const [price, setPrice] = useState('');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const update = (changes: Partial<NewListing>) => setListing(current => ({ ...current, ...changes }));
+
+  const handleSubmit = () => {
+    const result = onListCoin({ ...listing, initialPrice: parseFloat(price) });
+    if (result.ok === true) {
+      setMessage({ ok: true, text: `${listing.symbol.trim()} is now listed.` });
+      setListing(EMPTY_LISTING);
+      setPrice('');
+    } else {
+      setMessage({ ok: false, text: result.error });
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] text-gray-500 uppercase mb-1";
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <PlusCircle size={18} className="text-purple-400" />
+        <h3 className="text-lg font-bold text-white">List New Asset</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="col-span-2">
+          <label className={labelClass}>Name</label>
+          <input type="text" value={listing.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Symbol</label>
+          <input type="text" value={listing.symbol} onChange={(e) => update({ symbol: e.target.value })} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>Color</label>
+          <input type="color" value={listing.color} onChange={(e) => update({ color: e.target.value })} className="w-full h-[38px] bg-gray-950 border border-gray-700 rounded-lg px-1 cursor-pointer" />
+        </div>
+        <div className="col-span-2 md:col-span-4">
+          <label className={labelClass}>Description</label>
+          <input type="text" value={listing.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Initial Price ($)</label>
+          <input type="number" step="0.0001" min="0" value={price} onChange={(e) => setPrice(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className={labelClass}>Price Model</label>
+          <select value={listing.modelType} onChange={(e) => update({ modelType: e.target.value as PriceModelType })} className={inputClass}>
+            {(Object.keys(PRICE_MODEL_LABELS) as PriceModelType[]).map(type => (
+              <option key={type} value={type}>{PRICE_MODEL_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Settlement</label>
+          <select value={listing.settlementKind} onChange={(e) => update({ settlementKind: e.target.value as SettlementKind })} className={inputClass}>
+            {(Object.keys(SETTLEMENT_KIND_LABELS) as SettlementKind[]).map(kind => (
+              <option key={kind} value={kind}>{SETTLEMENT_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{listing.settlementKind === 'telegram' ? 'Bot Handle' : 'Link'}</label>
+          <input
+            type="text"
+            value={listing.settlementUrl}
+            onChange={(e) => update({ settlementUrl: e.target.value })}
+            disabled={listing.settlementKind === 'simulated'}
+            placeholder={listing.settlementKind === 'simulated' ? 'Not needed' : listing.settlementKind === 'telegram' ? '@bot' : 'https://'}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mt-4">
+        <span className={`text-xs ${message?.ok ? 'text-green-400' : 'text-red-400'}`}>{message?.text}</span>
+        <button
+          onClick={handleSubmit}
+          disabled={!listing.name.trim() || !listing.symbol.trim() || price === ''}
+          className="px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          List Asset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ListingForm;
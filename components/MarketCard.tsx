@@ -0,0 +1,90 @@
+import React from 'react';
+import { Box, Database } from 'lucide-react';
+import { CoinData, TradeSide, Watchlist } from '../types';
+import { formatPrice } from '../services/markets';
+import PriceChart from './PriceChart';
+import PriceChange from './PriceChange';
+import SettlementAction from './SettlementAction';
+import WatchlistMenu from './WatchlistMenu';
+
+interface MarketCardProps {
+  coin: CoinData;
+  balance: number; // Held by the active profile
+  changePercent: number;
+  watchlists: Watchlist[];
+  onToggleWatchlist: (watchlistId: string) => void;
+  onOpenTicket: (side: TradeSide) => void;
+}
+
+const WATERMARKS = { database: Database, box: Box };
+
+// One coin on the markets dashboard, rendered from its display metadata and settlement descriptor
+const MarketCard: React.FC<MarketCardProps> = ({ coin, balance, changePercent, watchlists, onToggleWatchlist, onOpenTicket }) => {
+  const display = coin.display ?? { badge: 'Token', avatar: coin.symbol };
+  const Watermark = display.watermark ? WATERMARKS[display.watermark] : null;
+
+  return (
+    <div className="bg-[#1e2329] rounded-sm border border-[#2b3139] flex flex-col relative overflow-hidden hover:border-gray-600 transition-colors">
+      {Watermark && (
+        <div className="absolute top-0 right-0 p-2 opacity-20 pointer-events-none">
+          <Watermark size={100} className="text-gray-700 transform rotate-12" />
+        </div>
+      )}
+
+      <div className="p-4 flex justify-between items-center border-b border-[#2b3139] relative z-10">
+        <div className="flex items-center gap-3 min-w-0">
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center font-bold text-[10px] border flex-shrink-0"
+            style={{ color: coin.color, backgroundColor: `${coin.color}1a`, borderColor: `${coin.color}33` }}
+          >
+            {display.avatar}
+          </div>
+          <div className="min-w-0">
+            <h3 className="font-bold text-[#EAECEF] text-lg leading-none flex items-center gap-2">
+              {coin.symbol} <span className="text-xs bg-[#2b3139] text-gray-400 px-1 rounded font-normal">{display.badge}</span>
+              <WatchlistMenu coinId={coin.id} watchlists={watchlists} onToggle={onToggleWatchlist} />
+            </h3>
+            <span className="text-xs text-gray-500 truncate block">{coin.name}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-mono tracking-tight" style={{ color: coin.color }}>
+            {formatPrice(coin.currentPrice)}
+          </div>
+          <PriceChange percent={changePercent} showArrow className="text-xs font-mono justify-end" />
+        </div>
+      </div>
+
+      <div className="p-4 flex-grow flex flex-col justify-between relative z-10">
+        <div className="grid grid-cols-2 gap-4 text-xs text-gray-400 mb-4">
+          <div>
+            <div className="mb-1">Holding (Vol)</div>
+            <div className="text-[#EAECEF] font-mono text-sm">{balance.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="mb-1">Total Value</div>
+            <div className="text-[#EAECEF] font-mono text-sm">
+              ${(balance * coin.currentPrice).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </div>
+          </div>
+          {display.infoRows?.map(row => (
+            <div key={row.label}>
+              <div className="mb-1">{row.label}</div>
+              <div className="text-[#EAECEF] text-sm">{row.value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className={`h-32 mb-4 ${display.muted ? 'grayscale opacity-50' : ''}`}>
+          <PriceChart data={coin.history} color={coin.color} />
+        </div>
+
+        <div className="mt-auto">
+          <SettlementAction coin={coin} variant="card" onOpenTicket={onOpenTicket} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarketCard;
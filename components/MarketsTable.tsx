@@ -0,0 +1,87 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { CoinData, MarketSort, SortDirection, Wallet, Watchlist } from '../types';
+import { MarketStats } from '../services/marketStats';
+import { formatPrice, MARKET_SORT_LABELS } from '../services/markets';
+import PriceChange from './PriceChange';
+import WatchlistMenu from './WatchlistMenu';
+
+interface MarketsTableProps {
+  coins: CoinData[]; // Already filtered and sorted
+  stats: Record<string, MarketStats>;
+  wallet: Wallet; // The active profile's holdings
+  sort: MarketSort;
+  direction: SortDirection;
+  onSort: (sort: MarketSort) => void;
+  watchlists: Watchlist[];
+  onToggleWatchlist: (watchlistId: string, coinId: string) => void;
+  onSelect: (coinId: string) => void;
+}
+
+const COLUMNS: { sort: MarketSort; align: 'left' | 'right' }[] = [
+  { sort: 'name', align: 'left' },
+  { sort: 'price', align: 'right' },
+  { sort: 'change', align: 'right' },
+  { sort: 'high', align: 'right' },
+  { sort: 'low', align: 'right' },
+  { sort: 'holdings', align: 'right' },
+  { sort: 'value', align: 'right' },
+];
+
+// Dense one-row-per-market alternative to the card grid; headers sort
+const MarketsTable: React.FC<MarketsTableProps> = ({ coins, stats, wallet, sort, direction, onSort, watchlists, onToggleWatchlist, onSelect }) => (
+  <div className="bg-[#1e2329] border border-[#2b3139] rounded-sm overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead className="text-xs text-gray-500 border-b border-[#2b3139]">
+        <tr>
+          <th className="w-8 px-3 py-2"></th>
+          {COLUMNS.map(column => (
+            <th key={column.sort} className={`font-medium px-3 py-2 ${column.align === 'left' ? 'text-left' : 'text-right'}`}>
+              <button
+                onClick={() => onSort(column.sort)}
+                className={`inline-flex items-center gap-1 transition-colors ${sort === column.sort ? 'text-[#f7a600]' : 'hover:text-[#EAECEF]'}`}
+              >
+                {column.sort === 'name' ? 'Market' : MARKET_SORT_LABELS[column.sort]}
+                {sort === column.sort && (direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {coins.map(coin => {
+          const coinStats = stats[coin.id];
+          const holdings = wallet[coin.id] ?? 0;
+          return (
+            <tr
+              key={coin.id}
+              onClick={() => onSelect(coin.id)}
+              className="border-t border-[#2b3139]/50 hover:bg-[#2b3139]/40 cursor-pointer transition-colors"
+            >
+              <td className="px-3 py-2">
+                <WatchlistMenu coinId={coin.id} watchlists={watchlists} onToggle={(watchlistId) => onToggleWatchlist(watchlistId, coin.id)} />
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: coin.color }}></span>
+                  <span className="font-bold text-[#EAECEF]">{coin.symbol}<span className="text-gray-500 font-normal">/USDT</span></span>
+                  <span className="hidden md:inline text-xs text-gray-500 truncate">{coin.name}</span>
+                </div>
+              </td>
+              <td className="px-3 py-2 text-right font-mono text-[#EAECEF]">{formatPrice(coin.currentPrice)}</td>
+              <td className="px-3 py-2 text-right font-mono"><PriceChange percent={coinStats?.changePercent ?? 0} /></td>
+              <td className="px-3 py-2 text-right font-mono text-gray-400">{formatPrice(coinStats?.high ?? coin.currentPrice)}</td>
+              <td className="px-3 py-2 text-right font-mono text-gray-400">{formatPrice(coinStats?.low ?? coin.currentPrice)}</td>
+              <td className="px-3 py-2 text-right font-mono text-[#EAECEF]">{holdings > 0 ? holdings.toLocaleString() : '—'}</td>
+              <td className="px-3 py-2 text-right font-mono text-[#EAECEF]">
+                {holdings > 0 ? `$${(holdings * coin.currentPrice).toLocaleString(undefined, { maximumFractionDigits: 2 })}` : '—'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default MarketsTable;
@@ -2,6 +2,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
+import { createRng, Rng } from '../services/random';
 
 // --------------------------------------------------------
 // TYPES
@@ -462,13 +463,13 @@ function generatePod(data: any) {
     }
 }
 
-function generateBuilding(data: any, xPos: number, zPos: number, height: number, width: number, depth: number) {
+function generateBuilding(data: any, rng: Rng, xPos: number, zPos: number, height: number, width: number, depth: number) {
     for (let y = -5; y < height; y++) {
         for (let x = 0; x < width; x++) {
             for (let z = 0; z < depth; z++) {
                 if (x > 0 && x < width - 1 && z > 0 && z < depth - 1 && y < height - 1) continue;
                 let col = PALETTE.mountain;
-                if (y > 0 && y % 3 !== 0 && (x + z) % 3 === 0) col = Math.random() > 0.5 ? PALETTE.teal : PALETTE.snow;
+                if (y > 0 && y % 3 !== 0 && (x + z) % 3 === 0) col = rng() > 0.5 ? PALETTE.teal : PALETTE.snow;
                 addVoxel(data, xPos + x, y, zPos + z, col);
             }
         }
@@ -477,7 +478,7 @@ function generateBuilding(data: any, xPos: number, zPos: number, height: number,
     addVoxel(data, xPos + 1, height + 1, zPos + 1, PALETTE.red);
 }
 
-function generateLandscape(data: any) {
+function generateLandscape(data: any, rng: Rng) {
     const riverStartX = -150; const riverEndX = -50;
     for (let x = -250; x < 250; x += 2) {
         const isRiver = x > riverStartX && x < riverEndX;
@@ -489,20 +490,20 @@ function generateLandscape(data: any) {
                 const isGridX = Math.abs(x) % 24 < 2; const isGridZ = Math.abs(z) % 24 < 2;
                 let col = PALETTE.grass; 
                 if (isGridX || isGridZ) col = PALETTE.darkGrey;
-                if (Math.random() > 0.99) col = PALETTE.teal;
+                if (rng() > 0.99) col = PALETTE.teal;
                 addVoxel(data, x, -6, z, col);
             }
         }
     }
-    generateBuilding(data, -30, 25, 40, 8, 8); 
-    generateBuilding(data, 10, -35, 55, 10, 10); 
-    generateBuilding(data, 60, 30, 45, 8, 12);
+    generateBuilding(data, rng, -30, 25, 40, 8, 8); 
+    generateBuilding(data, rng, 10, -35, 55, 10, 10); 
+    generateBuilding(data, rng, 60, 30, 45, 8, 12);
     for (let x = -300; x < 300; x += 12) {
         if (x > -50 && x < 100) continue;
         for (let z = -80; z > -160; z -= 12) {
-            if (Math.random() > 0.6) {
-                const h = 20 + Math.random() * 60;
-                generateBuilding(data, x, z, h, 6, 6);
+            if (rng() > 0.6) {
+                const h = 20 + rng() * 60;
+                generateBuilding(data, rng, x, z, h, 6, 6);
             }
         }
     }
@@ -604,6 +605,9 @@ const MetropolisScene = () => {
     useEffect(() => {
         if (!mountRef.current) return;
 
+        // Seeded so the same seed always builds the same skyline
+        const rng = createRng('metropolis');
+
         const scene = new THREE.Scene();
         scene.background = new THREE.Color(PALETTE.sky);
         scene.fog = new THREE.Fog(PALETTE.sky, 100, 1000);
@@ -658,7 +662,7 @@ const MetropolisScene = () => {
         const trackLength = 500;
 
         generateTrack(staticData, trackHeight, trackLength);
-        generateLandscape(staticData);
+        generateLandscape(staticData, rng);
         
         [-180, -120, -60, 0, 60, 120, 180].forEach(x => {
             const isRiver = x > -150 && x < -50;
@@ -713,7 +717,7 @@ const MetropolisScene = () => {
             mesh: droneMesh,
             velocity: new THREE.Vector3(),
             isActive: false,
-            respawnTimer: Math.random() * 100,
+            respawnTimer: rng() * 100,
         });
         }
 
@@ -722,9 +726,9 @@ const MetropolisScene = () => {
         const rainPos = [];
         for(let i=0; i<rainCount; i++) {
             rainPos.push(
-                (Math.random() - 0.5) * 600, 
-                (Math.random()) * 200,       
-                (Math.random() - 0.5) * 400 
+                (rng() - 0.5) * 600, 
+                (rng()) * 200,       
+                (rng() - 0.5) * 400 
             );
         }
         rainGeo.setAttribute('position', new THREE.Float32BufferAttribute(rainPos, 3));
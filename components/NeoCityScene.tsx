@@ -3,6 +3,7 @@ import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils';
+import { createRng } from '../services/random';
 
 const NeoCityScene = () => {
   const mountRef = useRef<HTMLDivElement>(null);
@@ -10,6 +11,9 @@ const NeoCityScene = () => {
   useEffect(() => {
     if (!mountRef.current) return;
 
+    // Seeded so the same seed always builds the same city
+    const rng = createRng('neocity');
+
     // --- SETUP VARIABLES ---
     let animationId: number;
     let renderer: THREE.WebGLRenderer;
@@ -111,15 +115,15 @@ const NeoCityScene = () => {
 
       for (let x = -80; x <= 80; x += 6) {
         for (let z = -60; z <= -15; z += 6) {
-          if (Math.random() > 0.7) continue; 
+          if (rng() > 0.7) continue; 
 
-          const height = Math.floor(Math.random() * 30) + 10;
-          const width = Math.random() > 0.5 ? 3 : 4;
+          const height = Math.floor(rng() * 30) + 10;
+          const width = rng() > 0.5 ? 3 : 4;
           
           for (let y = 0; y < height; y++) {
             builderWalls.add(x, y, z, width, 1, width);
-            if (Math.random() > 0.6) {
-              const side = Math.floor(Math.random() * 4);
+            if (rng() > 0.6) {
+              const side = Math.floor(rng() * 4);
               let wx = x, wz = z;
               if(side === 0) wz += width/2 + 0.1;
               if(side === 1) wz -= width/2 + 0.1;
@@ -129,7 +133,7 @@ const NeoCityScene = () => {
             }
           }
           
-          if (Math.random() > 0.5) {
+          if (rng() > 0.5) {
             builderWalls.add(x, height + 1, z, 1, 4, 1);
           }
         }
@@ -407,19 +411,19 @@ const NeoCityScene = () => {
 
         for(let i=0; i<3; i++) {
             const car = createSingleCar();
-            const x = (Math.random() * 160) - 80;
+            const x = (rng() * 160) - 80;
             car.position.set(x, 0, 2);
             car.rotation.y = Math.PI;
             scene.add(car);
-            cars.push({ mesh: car, speed: -(20 + Math.random() * 15) });
+            cars.push({ mesh: car, speed: -(20 + rng() * 15) });
         }
         for(let i=0; i<3; i++) {
             const car = createSingleCar();
-            const x = (Math.random() * 160) - 80;
+            const x = (rng() * 160) - 80;
             car.position.set(x, 0, 18);
             car.rotation.y = 0;
             scene.add(car);
-            cars.push({ mesh: car, speed: (20 + Math.random() * 15) });
+            cars.push({ mesh: car, speed: (20 + rng() * 15) });
         }
     };
 
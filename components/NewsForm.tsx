@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Newspaper } from 'lucide-react';
+import { CoinData } from '../types';
+import { NewsDraft } from '../services/news';
+import { isListed } from '../services/listings';
+
+interface NewsFormProps {
+  coins: CoinData[];
+  onPublish: (draft: NewsDraft) => { ok: true } | { ok: false; error: string };
+}
+
+// Admin form for publishing a news article; news alerts on the coin fire on it
+const NewsForm: React.FC<NewsFormProps> = ({ coins, onPublish }) => {
+  const listedCoins = coins.filter(isListed);
+  const [coinId, setCoinId] = useState(listedCoins[0]?.id ?? '');
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [impact, setImpact] = useState('');
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleSubmit = () => {
+    const result = onPublish({ coinId, title, summary, priceImpact: impact === '' ? 0 : parseFloat(impact) });
+    if (result.ok === true) {
+      setMessage({ ok: true, text: 'The article is published.' });
+      setTitle('');
+      setSummary('');
+      setImpact('');
+    } else {
+      setMessage({ ok: false, text: result.error });
+    }
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm";
+  const labelClass = "block text-[10px] text-gray-500 uppercase mb-1";
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <Newspaper size={18} className="text-purple-400" />
+        <h3 className="text-lg font-bold text-white">Publish News</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className={labelClass}>Coin</label>
+          <select value={coinId} onChange={(e) => setCoinId(e.target.value)} className={inputClass}>
+            {listedCoins.map(coin => (
+              <option key={coin.id} value={coin.id}>{coin.symbol}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Headline</label>
+          <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Price Impact (%)</label>
+          <input type="number" step="0.1" value={impact} onChange={(e) => setImpact(e.target.value)} placeholder="0" className={`${inputClass} font-mono`} />
+        </div>
+        <div className="col-span-2 md:col-span-4">
+          <label className={labelClass}>Summary</label>
+          <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={3} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mt-4">
+        <span className={`text-xs ${message?.ok ? 'text-green-400' : 'text-red-400'}`}>{message?.text}</span>
+        <button
+          onClick={handleSubmit}
+          disabled={!title.trim() || !summary.trim()}
+          className="px-4 py-2.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          Publish
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NewsForm;
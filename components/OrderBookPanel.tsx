@@ -0,0 +1,95 @@
+import React from 'react';
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { BookOpen } from 'lucide-react';
+import { CoinData } from '../types';
+import { BookLevel, OrderBook } from '../services/orderBook';
+import { formatVolume } from '../services/marketStats';
+
+interface OrderBookPanelProps {
+  book?: OrderBook;
+  coin: CoinData;
+}
+
+const LADDER_LEVELS = 12; // Levels shown per side; the depth chart uses the full book
+
+// Enough decimals to show every tick, e.g. 9 for a 1e-9 tick
+const getPriceDecimals = (tickSize: number) =>
+  tickSize > 0 ? Math.max(0, -Math.floor(Math.log10(tickSize) + 1e-9)) : 8;
+
+const LadderRow: React.FC<{ level: BookLevel; maxCumulative: number; decimals: number; side: 'bid' | 'ask' }> = ({ level, maxCumulative, decimals, side }) => (
+  <div className="relative grid grid-cols-3 px-3 py-0.5 text-[11px] font-mono">
+    {/* Cumulative size shading grows from the right */}
+    <div
+      className={`absolute inset-y-0 right-0 ${side === 'bid' ? 'bg-[#0ecb81]/10' : 'bg-[#f6465d]/10'}`}
+      style={{ width: `${maxCumulative > 0 ? (level.cumulative / maxCumulative) * 100 : 0}%` }}
+    />
+    <span className={`relative ${side === 'bid' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>{level.price.toFixed(decimals)}</span>
+    <span className="relative text-right text-[#EAECEF]">{formatVolume(level.quantity)}</span>
+    <span className="relative text-right text-gray-500">{formatVolume(level.cumulative)}</span>
+  </div>
+);
+
+// Price ladder and cumulative depth chart for the selected market
+const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ book, coin }) => {
+  if (!book || book.bids.length === 0 || book.asks.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-xs text-gray-600">No order book for {coin.symbol}.</div>;
+  }
+
+  const decimals = getPriceDecimals(book.tickSize);
+  const asks = book.asks.slice(0, LADDER_LEVELS);
+  const bids = book.bids.slice(0, LADDER_LEVELS);
+  const maxCumulative = Math.max(asks[asks.length - 1].cumulative, bids[bids.length - 1].cumulative);
+
+  // Bids run from the deepest level up to the spread, asks from the spread outward
+  const depthData = [
+    ...book.bids.slice().reverse().map(level => ({ price: level.price, bids: level.cumulative })),
+    ...book.asks.map(level => ({ price: level.price, asks: level.cumulative })),
+  ];
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="px-3 py-2 border-b border-[#2b3139] flex items-center gap-2 text-xs font-bold text-[#EAECEF]">
+        <BookOpen size={14} className="text-[#f7a600]" /> Order Book
+      </div>
+
+      <div className="grid grid-cols-3 px-3 py-1 text-[10px] text-gray-500 uppercase">
+        <span>Price (USDT)</span>
+        <span className="text-right">Size ({coin.symbol})</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0">
+        {asks.slice().reverse().map(level => (
+          <LadderRow key={`a-${level.price}`} level={level} maxCumulative={maxCumulative} decimals={decimals} side="ask" />
+        ))}
+        <div className="px-3 py-1.5 my-0.5 border-y border-[#2b3139] flex justify-between items-baseline">
+          <span className="font-mono text-sm font-bold text-[#EAECEF]">{book.mid.toFixed(decimals)}</span>
+          <span className="text-[10px] text-gray-500">
+            Spread {book.spread.toFixed(decimals)} ({((book.spread / book.mid) * 100).toFixed(2)}%)
+          </span>
+        </div>
+        {bids.map(level => (
+          <LadderRow key={`b-${level.price}`} level={level} maxCumulative={maxCumulative} decimals={decimals} side="bid" />
+        ))}
+      </div>
+
+      <div className="h-32 border-t border-[#2b3139] flex-shrink-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={depthData} margin={{ top: 8, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} hide />
+            <YAxis hide />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e2329', borderColor: '#2b3139', color: '#EAECEF', fontSize: 11 }}
+              labelFormatter={(price: number) => `Price ${price.toFixed(decimals)}`}
+              formatter={(value: number, name: string) => [formatVolume(value), name === 'bids' ? 'Bid depth' : 'Ask depth']}
+            />
+            <Area type="stepAfter" dataKey="bids" stroke="#0ecb81" fill="#0ecb81" fillOpacity={0.2} isAnimationActive={false} connectNulls={false} />
+            <Area type="stepBefore" dataKey="asks" stroke="#f6465d" fill="#f6465d" fillOpacity={0.2} isAnimationActive={false} connectNulls={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default OrderBookPanel;
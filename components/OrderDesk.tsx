@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Inbox, Check, X, ShieldAlert } from 'lucide-react';
+import { CoinData, GatewayOrder, Profile } from '../types';
+import { formatOrderAge, GATEWAY_STATUS_LABELS, GatewayResolution, getOrderProfileId, verifyChecksum } from '../services/telegramGateway';
+
+interface OrderDeskProps {
+  orders: GatewayOrder[];
+  coins: CoinData[];
+  profiles: Profile[];
+  onResolve: (id: string, resolution: GatewayResolution) => { ok: true } | { ok: false; error: string };
+}
+
+const STATUS_STYLES: Record<GatewayOrder['status'], string> = {
+  pending: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  filled: 'bg-green-500/10 text-green-400 border-green-500/20',
+  rejected: 'bg-red-500/10 text-red-400 border-red-500/20',
+};
+
+const DeskRow: React.FC<{ order: GatewayOrder; coin?: CoinData; profile?: Profile; onResolve: OrderDeskProps['onResolve'] }> = ({ order, coin, profile, onResolve }) => {
+  const [fillPrice, setFillPrice] = useState((coin?.currentPrice ?? order.price).toString());
+  const [reason, setReason] = useState('');
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const symbol = coin?.symbol ?? order.coinId;
+
+  const resolve = (resolution: GatewayResolution) => {
+    const result = onResolve(order.id, resolution);
+    if (result.ok === false) setError(result.error);
+  };
+
+  const handleApprove = () => {
+    const price = parseFloat(fillPrice);
+    if (!(price > 0)) {
+      setError('Enter the fill price.');
+      return;
+    }
+    resolve({ status: 'filled', fillPrice: price });
+  };
+
+  const handleReject = () => {
+    if (!reason.trim()) {
+      setError('Enter a reason for the rejection.');
+      return;
+    }
+    resolve({ status: 'rejected', reason: reason.trim() });
+  };
+
+  const inputClass = "bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm";
+
+  return (
+    <div className="bg-gray-950/60 border border-gray-700 rounded-lg px-3 py-3 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className={`px-2 py-0.5 rounded border uppercase font-bold text-[10px] ${STATUS_STYLES[order.status]}`}>{GATEWAY_STATUS_LABELS[order.status]}</span>
+        <span className="font-mono text-gray-300">{order.id}</span>
+        <span className={`font-bold uppercase ${order.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{order.side}</span>
+        <span className="font-mono text-white">{order.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })} {symbol}</span>
+        <span className="font-mono text-gray-400">@ ${order.price.toFixed(8)} (${order.total.toFixed(2)})</span>
+        <span className="text-gray-500">{formatOrderAge(order.createdAt)} ago · {profile?.name ?? 'Deleted profile'} · @{order.botHandle}</span>
+        <span className={`font-mono ${verifyChecksum(order) ? 'text-gray-500' : 'text-red-400'}`} title="Must match the checksum quoted in the Telegram message">
+          {!verifyChecksum(order) && <ShieldAlert size={12} className="inline mr-1" />}#{order.checksum}
+        </span>
+      </div>
+
+      {order.status === 'filled' && (
+        <div className="text-gray-400">Filled at <span className="font-mono text-white">${order.fillPrice?.toFixed(8)}</span> on {new Date(order.closedAt!).toLocaleString()}</div>
+      )}
+      {order.status === 'rejected' && (
+        <div className="text-gray-400">Rejected on {new Date(order.closedAt!).toLocaleString()}: <span className="text-white">{order.reason}</span></div>
+      )}
+
+      {order.status === 'pending' && (
+        <div className="flex flex-col md:flex-row gap-2">
+          {isRejecting ? (
+            <>
+              <input type="text" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason, shown to the user" className={`${inputClass} flex-1`} />
+              <button onClick={handleReject} className="px-3 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg transition-colors font-medium">Confirm Reject</button>
+              <button onClick={() => { setIsRejecting(false); setError(null); }} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors font-medium">Back</button>
+            </>
+          ) : (
+            <>
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input type="number" step="any" min="0" value={fillPrice} onChange={(e) => setFillPrice(e.target.value)} title="Fill price" className={`${inputClass} w-full pl-7 font-mono`} />
+              </div>
+              <button onClick={handleApprove} className="px-3 py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg transition-colors font-medium flex items-center justify-center gap-1">
+                <Check size={14} /> Approve
+              </button>
+              <button onClick={() => { setIsRejecting(true); setError(null); }} className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-red-400 rounded-lg transition-colors font-medium flex items-center justify-center gap-1">
+                <X size={14} /> Reject
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+// Admin queue of Telegram order requests: approve at a fill price or reject with a reason
+const OrderDesk: React.FC<OrderDeskProps> = ({ orders, coins, profiles, onResolve }) => {
+  const [showClosed, setShowClosed] = useState(false);
+  const pending = orders.filter(o => o.status === 'pending');
+  // Oldest pending first, then the most recently settled
+  const visible = [
+    ...pending,
+    ...(showClosed ? orders.filter(o => o.status !== 'pending').slice().reverse() : []),
+  ];
+
+  return (
+    <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <Inbox size={18} className="text-purple-400" />
+          <h3 className="text-lg font-bold text-white">Order Desk</h3>
+          <span className="text-xs text-gray-500">{pending.length} pending</span>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer select-none">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} className="accent-purple-500" />
+          Show settled requests
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500">No Telegram requests waiting.</p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(order => (
+            <DeskRow
+              key={order.id}
+              order={order}
+              coin={coins.find(c => c.id === order.coinId)}
+              profile={profiles.find(p => p.id === getOrderProfileId(order))}
+              onResolve={onResolve}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderDesk;
@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from 'react';
+import { X, ArrowRight, Wallet, Info, CheckCircle } from 'lucide-react';
+import { CoinData, OrderType, TimeInForce, TradeSide } from '../types';
+import { getAffordableQuantity, OrderBook, walkBook } from '../services/orderBook';
+import { isSimulatedSettlement } from '../services/settlement';
+import { getReferencePrice, needsLimitPrice, needsStopPrice, OrderRequest, ORDER_TYPE_LABELS, PlaceOrderResult, TIME_IN_FORCE_LABELS } from '../services/orders';
+
+interface OrderTicketProps {
+  isOpen: boolean;
+  onClose: () => void;
+  coin: CoinData;
+  cash: number; // Paper-trading USDT available
+  balance: number; // Coin held by the active profile
+  initialSide?: TradeSide;
+  book?: OrderBook; // Used to estimate slippage on market orders
+  onSubmit: (request: Omit<OrderRequest, 'coinId'>) => PlaceOrderResult; // Simulated fill or resting order
+  onSubmitTelegram: (side: TradeSide, quantity: number) => void; // Hand-off for telegram-settled coins
+}
+
+const QUICK_PERCENTAGES = [25, 50, 75, 100];
+const DEFAULT_GTT_MS = 60 * 60 * 1000; // Default expiry offered for GTT orders
+
+// Quantities are rounded down, so a sized order never costs more than intended
+const floorQuantity = (quantity: number) => (Math.floor(quantity * 1e6) / 1e6).toFixed(6);
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInput = (ms: number) =>
+  new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const OrderTicket: React.FC<OrderTicketProps> = ({ isOpen, onClose, coin, cash, balance, initialSide = 'buy', book, onSubmit, onSubmitTelegram }) => {
+  const { symbol, currentPrice } = coin;
+  const isSimulated = isSimulatedSettlement(coin);
+  const [side, setSide] = useState<TradeSide>(initialSide);
+  const [orderType, setOrderType] = useState<OrderType>('market');
+  const [limitPrice, setLimitPrice] = useState<string>('');
+  const [stopPrice, setStopPrice] = useState<string>('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC');
+  const [expiresAt, setExpiresAt] = useState(() => toLocalInput(Date.now() + DEFAULT_GTT_MS));
+  const [amount, setAmount] = useState<string>('');
+  const [totalCost, setTotalCost] = useState<string>('');
+  const [mode, setMode] = useState<'amount' | 'total'>('amount'); // Tracks which input is driving the calculation
+  const [error, setError] = useState<string | null>(null);
+
+  // Totals are worked out at the price the order is expected to trade at
+  const referencePrice = getReferencePrice(
+    { type: orderType, limitPrice: parseFloat(limitPrice) || undefined, stopPrice: parseFloat(stopPrice) || undefined },
+    currentPrice,
+  );
+
+  // Sync total cost when amount changes
+  const handleAmountChange = (val: string) => {
+    setAmount(val);
+    setMode('amount');
+    setError(null);
+    const num = parseFloat(val);
+    if (!isNaN(num)) {
+      setTotalCost((num * referencePrice).toFixed(2));
+    } else {
+      setTotalCost('');
+    }
+  };
+
+  // Sync amount when total cost changes
+  const handleTotalChange = (val: string) => {
+    setTotalCost(val);
+    setMode('total');
+    setError(null);
+    const num = parseFloat(val);
+    if (!isNaN(num) && referencePrice > 0) {
+      setAmount(floorQuantity(num / referencePrice));
+    } else {
+      setAmount('');
+    }
+  };
+
+  // Update calculations if price changes live while modal is open
+  useEffect(() => {
+      if (mode === 'amount') {
+          const num = parseFloat(amount);
+          if (!isNaN(num)) setTotalCost((num * referencePrice).toFixed(2));
+      } else if (mode === 'total') {
+          const num = parseFloat(totalCost);
+          if (!isNaN(num) && referencePrice > 0) setAmount(floorQuantity(num / referencePrice));
+      }
+  }, [referencePrice, mode]); // Added mode to deps to ensure logic holds
+
+  if (!isOpen) return null;
+
+  const handleSideChange = (next: TradeSide) => {
+    setSide(next);
+    setAmount('');
+    setTotalCost('');
+    setError(null);
+  };
+
+  const handleOrderTypeChange = (next: OrderType) => {
+    setOrderType(next);
+    setError(null);
+    // Start new price fields from the live price
+    if (needsLimitPrice(next) && !limitPrice) setLimitPrice(currentPrice.toString());
+    if (needsStopPrice(next) && !stopPrice) setStopPrice(currentPrice.toString());
+  };
+
+  // Sells are sized from the coin balance, simulated buys from the cash balance.
+  // Market buys walk the book above mid, so they are sized from the book itself.
+  const handleQuickPercent = (percent: number) => {
+    const fraction = percent / 100;
+    if (side === 'sell') {
+      handleAmountChange((balance * fraction).toString());
+    } else if (orderType === 'market' && book) {
+      handleAmountChange(floorQuantity(getAffordableQuantity(book, cash * fraction)));
+    } else {
+      handleTotalChange((Math.floor(cash * fraction * 100) / 100).toString());
+    }
+  };
+
+  const quantity = parseFloat(amount);
+  const exceedsBalance = side === 'sell' && quantity > balance;
+
+  // Settles in the paper-trading ledger, or rests until its price is reached
+  const handleSimulatedOrder = () => {
+    const result = onSubmit({
+      side,
+      type: orderType,
+      quantity,
+      limitPrice: needsLimitPrice(orderType) ? parseFloat(limitPrice) : undefined,
+      stopPrice: needsStopPrice(orderType) ? parseFloat(stopPrice) : undefined,
+      // Market orders never rest, so they are always immediate-or-cancel
+      timeInForce: orderType === 'market' ? 'IOC' : timeInForce,
+      expiresAt: orderType !== 'market' && timeInForce === 'GTT' ? new Date(expiresAt).getTime() : undefined,
+    });
+    if (result.ok === true) {
+      onClose();
+    } else {
+      setError(result.error);
+    }
+  };
+
+  // Hands the request to the coin's Telegram bot and records it as pending
+  const handleTelegramOrder = () => {
+    if (!(quantity > 0)) return;
+    onSubmitTelegram(side, quantity);
+    onClose();
+  };
+
+  const accent = side === 'buy' ? '#0ecb81' : '#f6465d';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-md p-4 animate-in fade-in duration-200">
+      <div className="bg-[#1e2329] w-full max-w-md max-h-[95vh] overflow-y-auto rounded-2xl shadow-2xl border border-[#2b3139] flex flex-col">
+
+        {/* Header */}
+        <div className="px-6 py-5 border-b border-[#2b3139] flex justify-between items-center bg-[#1e2329]">
+          <div>
+             <h2 className="text-xl font-bold text-[#EAECEF] flex items-center gap-2">
+                {side === 'buy' ? 'Buy' : 'Sell'} {symbol}
+             </h2>
+             <p className="text-xs text-gray-500 mt-1 font-medium">Place {ORDER_TYPE_LABELS[isSimulated ? orderType : 'market']} Order</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-[#2b3139] rounded-full text-gray-400 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Side Tabs */}
+        <div className="grid grid-cols-2 border-b border-[#2b3139]">
+          {(['buy', 'sell'] as TradeSide[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => handleSideChange(tab)}
+              className={`py-3 text-sm font-bold uppercase transition-colors border-b-2 ${side === tab
+                ? (tab === 'buy' ? 'text-[#0ecb81] border-[#0ecb81]' : 'text-[#f6465d] border-[#f6465d]')
+                : 'text-gray-500 border-transparent hover:text-[#EAECEF]'}`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 space-y-6">
+
+          {/* Price Display */}
+          <div className="flex justify-between items-end bg-[#161a1e] p-4 rounded-xl border border-[#2b3139]/50">
+            <div>
+                <span className="text-xs text-gray-500 font-bold uppercase block mb-1">Current Price</span>
+                <div className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></span>
+                    <span className="text-[#3b82f6] font-mono font-bold">Live</span>
+                </div>
+            </div>
+            <div className="text-right">
+                <div className="text-2xl font-mono font-bold text-[#EAECEF]">${currentPrice.toFixed(8)}</div>
+                <div className="text-xs text-gray-500">USDT per {symbol}</div>
+            </div>
+          </div>
+
+          {/* Order Type & Trigger Prices (simulated settlement only) */}
+          {isSimulated && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-4 gap-1 bg-[#161a1e] p-1 rounded-lg">
+                {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => handleOrderTypeChange(type)}
+                    className={`py-1.5 rounded text-[11px] font-bold transition-colors ${orderType === type ? 'bg-[#2b3139] text-[#f7a600]' : 'text-gray-500 hover:text-[#EAECEF]'}`}
+                  >
+                    {ORDER_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+              {(needsStopPrice(orderType) || needsLimitPrice(orderType)) && (
+                <div className="grid grid-cols-2 gap-3">
+                  {needsStopPrice(orderType) && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 pl-1">Stop Price</label>
+                      <input
+                        type="number"
+                        value={stopPrice}
+                        onChange={(e) => { setStopPrice(e.target.value); setError(null); }}
+                        className="w-full bg-[#121518] border border-[#2b3139] rounded-lg py-2 px-3 text-white font-mono text-sm outline-none focus:border-[#3b82f6]"
+                      />
+                    </div>
+                  )}
+                  {needsLimitPrice(orderType) && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 pl-1">Limit Price</label>
+                      <input
+                        type="number"
+                        value={limitPrice}
+                        onChange={(e) => { setLimitPrice(e.target.value); setError(null); }}
+                        className="w-full bg-[#121518] border border-[#2b3139] rounded-lg py-2 px-3 text-white font-mono text-sm outline-none focus:border-[#3b82f6]"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              {orderType !== 'market' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 pl-1">Time in Force</label>
+                    <select
+                      value={timeInForce}
+                      onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                      className="w-full bg-[#121518] border border-[#2b3139] rounded-lg py-2 px-3 text-white text-sm outline-none focus:border-[#3b82f6]"
+                    >
+                      {(Object.keys(TIME_IN_FORCE_LABELS) as TimeInForce[]).map(tif => (
+                        <option key={tif} value={tif}>{tif} · {TIME_IN_FORCE_LABELS[tif]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {timeInForce === 'GTT' && (
+                    <div>
+                      <label className="block text-[10px] font-bold text-gray-500 uppercase mb-1 pl-1">Expires</label>
+                      <input
+                        type="datetime-local"
+                        value={expiresAt}
+                        onChange={(e) => setExpiresAt(e.target.value)}
+                        className="w-full bg-[#121518] border border-[#2b3139] rounded-lg py-2 px-3 text-white text-sm outline-none focus:border-[#3b82f6]"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Input Fields */}
+          <div className="space-y-3">
+
+              {/* Amount Input */}
+              <div className="relative group">
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2 pl-1">I want to {side} (Amount)</label>
+                <div className="relative flex items-center">
+                    <input
+                        type="number"
+                        value={amount}
+                        onChange={(e) => handleAmountChange(e.target.value)}
+                        placeholder="0.00"
+                        className="w-full bg-[#121518] border border-[#2b3139] rounded-xl py-4 pl-4 pr-20 text-white font-mono text-lg outline-none focus:border-[#3b82f6] focus:ring-1 focus:ring-[#3b82f6] transition-all placeholder-gray-700"
+                        autoFocus
+                    />
+                    <span className="absolute right-4 text-sm font-bold text-gray-400 pointer-events-none">{symbol}</span>
+                </div>
+              </div>
+
+              {/* Divider */}
+              <div className="flex justify-center relative z-10 opacity-50">
+                 <div className="bg-[#2b3139] rounded-full p-1 border border-[#1e2329]">
+                    <ArrowRight className="w-3 h-3 text-gray-400 rotate-90" />
+                 </div>
+              </div>
+
+              {/* Total Input */}
+              <div className="relative group">
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2 pl-1">{side === 'buy' ? 'I will pay' : 'I will receive'} (Total)</label>
+                <div className="relative flex items-center">
+                    <input
+                        type="number"
+                        value={totalCost}
+                        onChange={(e) => handleTotalChange(e.target.value)}
+                        placeholder="0.00"
+                        className="w-full bg-[#121518] border border-[#2b3139] rounded-xl py-4 pl-4 pr-20 text-white font-mono text-lg outline-none focus:border-[#3b82f6] focus:ring-1 focus:ring-[#3b82f6] transition-all placeholder-gray-700"
+                    />
+                    <span className="absolute right-4 text-sm font-bold text-gray-400 pointer-events-none">USDT</span>
+                </div>
+              </div>
+
+          </div>
+
+          {/* Quick Size Buttons */}
+          {(side === 'sell' || isSimulated) && (
+            <div className="grid grid-cols-4 gap-2">
+              {QUICK_PERCENTAGES.map(percent => (
+                <button
+                  key={percent}
+                  onClick={() => handleQuickPercent(percent)}
+                  className="py-1.5 rounded-lg bg-[#2b3139] hover:bg-[#363c45] text-xs font-bold text-gray-300 transition-colors"
+                >
+                  {percent}%
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between text-xs text-gray-500 px-1">
+              <span>Available</span>
+              <span className="font-mono text-gray-300">
+                {side === 'sell'
+                  ? `${balance.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`
+                  : `${cash.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`}
+              </span>
+          </div>
+
+          {isSimulated && orderType === 'market' && book && parseFloat(amount) > 0 && (() => {
+            const estimate = walkBook(book, side, parseFloat(amount));
+            return (
+              <div className="flex justify-between text-xs text-gray-500 px-1">
+                <span>Est. fill (slippage)</span>
+                <span className="font-mono text-gray-300">
+                  {estimate
+                    ? `${estimate.averagePrice.toFixed(8)} (${(estimate.slippage * 100).toFixed(3)}%)`
+                    : <span className="text-[#f6465d]">Exceeds book depth</span>}
+                </span>
+              </div>
+            );
+          })()}
+
+          {(error || exceedsBalance) && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-xs text-red-300">
+              {error ?? `You can sell at most ${balance.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}.`}
+            </div>
+          )}
+
+          {/* Info Box */}
+          <div className="bg-blue-500/10 rounded-lg p-3 flex gap-3 border border-blue-500/20">
+             <Info className="w-5 h-5 text-blue-400 shrink-0" />
+             <div className="text-xs text-blue-200/80 leading-relaxed">
+                {isSimulated
+                  ? (orderType === 'market'
+                    ? 'This order fills immediately against the order book at the average execution price, including slippage, using your paper-trading balance.'
+                    : 'The order rests in Open Orders, holding back the cash or coins it needs, and fills against your paper-trading balance once the live price reaches it.')
+                  : 'Order details will be pre-filled in Telegram with an order ID and checksum. Send the message to the bot; the order shows as pending until the desk fills or rejects it.'}
+             </div>
+          </div>
+
+          {/* Action Button */}
+          {isSimulated ? (
+            <button
+              onClick={handleSimulatedOrder}
+              disabled={!(quantity > 0) || exceedsBalance}
+              style={{ backgroundColor: accent }}
+              className="w-full hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl text-base transition-all transform active:scale-[0.98] flex justify-center items-center gap-2"
+            >
+              {orderType === 'market' ? (side === 'buy' ? 'Buy' : 'Sell') : `Place ${side === 'buy' ? 'Buy' : 'Sell'} ${ORDER_TYPE_LABELS[orderType]}`} {symbol} <CheckCircle size={18} />
+            </button>
+          ) : (
+            <button
+              onClick={handleTelegramOrder}
+              disabled={!(quantity > 0) || exceedsBalance}
+              className="w-full bg-[#3b82f6] hover:bg-[#2563eb] disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl text-base transition-all transform active:scale-[0.98] shadow-lg shadow-blue-900/20 flex justify-center items-center gap-2"
+            >
+              Continue to Telegram <Wallet size={18} />
+            </button>
+          )}
+
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTicket;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { ListOrdered, History, Receipt, Pencil, X, Check, Send } from 'lucide-react';
+import { CoinData, GatewayOrder, Ledger, Order } from '../types';
+import { describeOrderPrices, getOpenOrders, needsLimitPrice, needsStopPrice, ORDER_TYPE_LABELS } from '../services/orders';
+import { GATEWAY_STATUS_LABELS } from '../services/telegramGateway';
+import TradeHistory from './TradeHistory';
+
+type OrderChanges = Partial<Pick<Order, 'quantity' | 'limitPrice' | 'stopPrice'>>;
+
+interface OrdersPanelProps {
+  coin: CoinData; // Open orders are shown for this coin only
+  coins: CoinData[];
+  ledger: Ledger;
+  gatewayOrders: GatewayOrder[]; // Telegram hand-offs for every coin
+  onCancelOrder: (id: string) => void;
+  onModifyOrder: (id: string, changes: OrderChanges) => { ok: true } | { ok: false; error: string };
+}
+
+type Tab = 'open' | 'history' | 'fills' | 'telegram';
+
+const STATUS_STYLES: Record<Order['status'], string> = {
+  open: 'text-[#f7a600]',
+  filled: 'text-[#0ecb81]',
+  cancelled: 'text-gray-500',
+  expired: 'text-gray-500',
+  rejected: 'text-[#f6465d]',
+};
+
+const GATEWAY_STATUS_STYLES: Record<GatewayOrder['status'], string> = {
+  pending: 'text-[#f7a600]',
+  filled: 'text-[#0ecb81]',
+  rejected: 'text-[#f6465d]',
+};
+
+const OrderRow: React.FC<{ order: Order; symbol: string; onCancel: () => void; onModify: OrdersPanelProps['onModifyOrder'] }> = ({ order, symbol, onCancel, onModify }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [quantity, setQuantity] = useState(order.quantity.toString());
+  const [limitPrice, setLimitPrice] = useState(order.limitPrice?.toString() ?? '');
+  const [stopPrice, setStopPrice] = useState(order.stopPrice?.toString() ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const result = onModify(order.id, {
+      quantity: parseFloat(quantity),
+      limitPrice: needsLimitPrice(order.type) ? parseFloat(limitPrice) : undefined,
+      stopPrice: needsStopPrice(order.type) ? parseFloat(stopPrice) : undefined,
+    });
+    if (result.ok === true) {
+      setIsEditing(false);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const inputClass = "w-24 bg-[#0b0e11] border border-[#2b3139] rounded px-1 py-0.5 font-mono text-[#EAECEF] outline-none focus:border-[#f7a600]";
+
+  return (
+    <tr className="border-t border-[#2b3139]/50 text-[#EAECEF] align-top">
+      <td className="px-4 py-1 text-gray-500">{new Date(order.createdAt).toLocaleTimeString()}</td>
+      <td className={`px-2 py-1 font-bold uppercase ${order.side === 'buy' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>{order.side}</td>
+      <td className="px-2 py-1 text-gray-400">
+        {ORDER_TYPE_LABELS[order.type]}
+        {order.triggered && <span className="ml-1 text-[10px] text-[#f7a600]">(triggered)</span>}
+      </td>
+      <td className="px-2 py-1 font-mono">
+        {isEditing ? (
+          <div className="flex flex-col gap-1">
+            {needsStopPrice(order.type) && <input type="number" title="Stop price" value={stopPrice} onChange={(e) => setStopPrice(e.target.value)} className={inputClass} />}
+            {needsLimitPrice(order.type) && <input type="number" title="Limit price" value={limitPrice} onChange={(e) => setLimitPrice(e.target.value)} className={inputClass} />}
+          </div>
+        ) : describeOrderPrices(order)}
+      </td>
+      <td className="px-2 py-1 text-right font-mono">
+        {isEditing
+          ? <input type="number" title="Amount" value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} />
+          : `${order.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`}
+        {error && <div className="text-[10px] text-[#f6465d] font-sans">{error}</div>}
+      </td>
+      <td className="px-2 py-1 text-gray-400">{order.timeInForce}{order.expiresAt ? ` · ${new Date(order.expiresAt).toLocaleString()}` : ''}</td>
+      <td className="px-4 py-1 text-right whitespace-nowrap">
+        {isEditing ? (
+          <>
+            <button onClick={handleSave} className="p-1 text-gray-400 hover:text-[#0ecb81]" title="Save"><Check size={14} /></button>
+            <button onClick={() => { setIsEditing(false); setError(null); }} className="p-1 text-gray-400 hover:text-[#EAECEF]" title="Discard"><X size={14} /></button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => setIsEditing(true)} className="p-1 text-gray-400 hover:text-[#f7a600]" title="Modify"><Pencil size={14} /></button>
+            <button onClick={onCancel} className="p-1 text-gray-400 hover:text-[#f6465d]" title="Cancel order"><X size={14} /></button>
+          </>
+        )}
+      </td>
+    </tr>
+  );
+};
+
+// Open orders, closed order history, fills and Telegram requests beneath the trade view
+const OrdersPanel: React.FC<OrdersPanelProps> = ({ coin, coins, ledger, gatewayOrders, onCancelOrder, onModifyOrder }) => {
+  const [tab, setTab] = useState<Tab>('open');
+  const openOrders = getOpenOrders(ledger, coin.id);
+  const closedOrders = ledger.orders.filter(o => o.status !== 'open').slice().reverse();
+  const telegramOrders = gatewayOrders.slice().reverse();
+  const pendingCount = gatewayOrders.filter(o => o.status === 'pending').length;
+
+  const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
+    { id: 'open', label: `Open Orders (${openOrders.length})`, icon: <ListOrdered size={14} /> },
+    { id: 'history', label: 'Order History', icon: <History size={14} /> },
+    { id: 'fills', label: 'Trade History', icon: <Receipt size={14} /> },
+    { id: 'telegram', label: `Telegram (${pendingCount} pending)`, icon: <Send size={14} /> },
+  ];
+
+  return (
+    <div className="bg-[#1e2329] border-t border-[#2b3139] flex flex-col h-48 flex-shrink-0">
+      <div className="px-4 border-b border-[#2b3139] flex gap-4 text-xs font-bold">
+        {tabs.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`py-2 flex items-center gap-1.5 border-b-2 transition-colors ${tab === t.id ? 'text-[#f7a600] border-[#f7a600]' : 'text-gray-400 border-transparent hover:text-[#EAECEF]'}`}
+          >
+            {t.icon} {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'fills' && <TradeHistory fills={ledger.fills} coins={coins} />}
+
+      {tab === 'telegram' && (telegramOrders.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-600">No Telegram orders sent yet.</div>
+      ) : (
+        <div className="overflow-y-auto flex-1 custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 sticky top-0 bg-[#1e2329]">
+              <tr>
+                <th className="text-left font-medium px-4 py-1">Sent</th>
+                <th className="text-left font-medium px-2 py-1">Order ID</th>
+                <th className="text-left font-medium px-2 py-1">Pair</th>
+                <th className="text-left font-medium px-2 py-1">Side</th>
+                <th className="text-right font-medium px-2 py-1">Price</th>
+                <th className="text-right font-medium px-2 py-1">Amount</th>
+                <th className="text-right font-medium px-2 py-1">Total (USDT)</th>
+                <th className="text-left font-medium px-4 py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {telegramOrders.map(order => (
+                <tr key={order.id} className="border-t border-[#2b3139]/50 text-[#EAECEF]">
+                  <td className="px-4 py-1 text-gray-500">{new Date(order.createdAt).toLocaleString()}</td>
+                  <td className="px-2 py-1 text-gray-400" title={`Checksum ${order.checksum} · @${order.botHandle}`}>{order.id}</td>
+                  <td className="px-2 py-1">{coins.find(c => c.id === order.coinId)?.symbol ?? order.coinId}/USDT</td>
+                  <td className={`px-2 py-1 font-bold uppercase ${order.side === 'buy' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>{order.side}</td>
+                  <td className="px-2 py-1 text-right" title={order.fillPrice !== undefined ? `Requested at ${order.price.toFixed(8)}` : undefined}>{(order.fillPrice ?? order.price).toFixed(8)}</td>
+                  <td className="px-2 py-1 text-right">{order.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                  <td className="px-2 py-1 text-right">{(order.fillPrice !== undefined ? order.quantity * order.fillPrice : order.total).toFixed(2)}</td>
+                  <td className={`px-4 py-1 font-sans uppercase font-bold ${GATEWAY_STATUS_STYLES[order.status]}`} title={order.reason}>{GATEWAY_STATUS_LABELS[order.status]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {tab === 'open' && (openOrders.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-600">No open {coin.symbol} orders.</div>
+      ) : (
+        <div className="overflow-y-auto flex-1 custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 sticky top-0 bg-[#1e2329]">
+              <tr>
+                <th className="text-left font-medium px-4 py-1">Placed</th>
+                <th className="text-left font-medium px-2 py-1">Side</th>
+                <th className="text-left font-medium px-2 py-1">Type</th>
+                <th className="text-left font-medium px-2 py-1">Price</th>
+                <th className="text-right font-medium px-2 py-1">Amount</th>
+                <th className="text-left font-medium px-2 py-1">TIF</th>
+                <th className="px-4 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {openOrders.map(order => (
+                <OrderRow key={order.id} order={order} symbol={coin.symbol} onCancel={() => onCancelOrder(order.id)} onModify={onModifyOrder} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      {tab === 'history' && (closedOrders.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-600">No closed orders yet.</div>
+      ) : (
+        <div className="overflow-y-auto flex-1 custom-scrollbar">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500 sticky top-0 bg-[#1e2329]">
+              <tr>
+                <th className="text-left font-medium px-4 py-1">Closed</th>
+                <th className="text-left font-medium px-2 py-1">Pair</th>
+                <th className="text-left font-medium px-2 py-1">Side</th>
+                <th className="text-left font-medium px-2 py-1">Type</th>
+                <th className="text-left font-medium px-2 py-1">Price</th>
+                <th className="text-right font-medium px-2 py-1">Amount</th>
+                <th className="text-left font-medium px-4 py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {closedOrders.map(order => (
+                <tr key={order.id} className="border-t border-[#2b3139]/50 text-[#EAECEF]">
+                  <td className="px-4 py-1 text-gray-500">{new Date(order.closedAt ?? order.createdAt).toLocaleString()}</td>
+                  <td className="px-2 py-1">{coins.find(c => c.id === order.coinId)?.symbol ?? order.coinId}/USDT</td>
+                  <td className={`px-2 py-1 font-bold uppercase ${order.side === 'buy' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>{order.side}</td>
+                  <td className="px-2 py-1 text-gray-400 font-sans">{ORDER_TYPE_LABELS[order.type]}</td>
+                  <td className="px-2 py-1">{describeOrderPrices(order)}</td>
+                  <td className="px-2 py-1 text-right">{order.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                  <td className={`px-4 py-1 font-sans uppercase font-bold ${STATUS_STYLES[order.status]}`} title={order.reason}>{order.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default OrdersPanel;
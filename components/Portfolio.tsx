@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { PieChart as PieChartIcon } from 'lucide-react';
+import { AuditEntry, CoinData, EquityRange, EquitySnapshot, GatewayOrder, Ledger, MarketHistory } from '../types';
+import { buildEquityCurve, CASH_COLOR, computePortfolio, EQUITY_RANGES, formatPnl } from '../services/portfolio';
+import { formatCandleTime } from '../services/historyStore';
+import { formatPrice } from '../services/markets';
+import { formatVolume } from '../services/marketStats';
+import { isListed } from '../services/listings';
+import PortfolioAnalytics from './PortfolioAnalytics';
+
+interface PortfolioProps {
+  coins: CoinData[];
+  ledger: Ledger;
+  gatewayOrders: GatewayOrder[];
+  marketHistory: MarketHistory;
+  snapshots: EquitySnapshot[];
+  auditLog: AuditEntry[];
+  onTrade: (coinId: string) => void;
+}
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const pnlClass = (value: number) => (value > 0 ? 'text-[#0ecb81]' : value < 0 ? 'text-[#f6465d]' : 'text-gray-400');
+
+const SummaryCard: React.FC<{ label: string; value: string; className?: string; hint?: string }> = ({ label, value, className = 'text-white', hint }) => (
+  <div className="bg-[#1e2329] border border-[#2b3139] rounded-xl p-4">
+    <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">{label}</div>
+    <div className={`text-xl font-mono font-bold ${className}`}>{value}</div>
+    {hint && <div className="text-[10px] text-gray-500 mt-1">{hint}</div>}
+  </div>
+);
+
+// Holdings with cost basis and P&L, an allocation donut and the equity curve
+const Portfolio: React.FC<PortfolioProps> = ({ coins, ledger, gatewayOrders, marketHistory, snapshots, auditLog, onTrade }) => {
+  const [range, setRange] = useState<EquityRange>('1d');
+
+  const summary = useMemo(() => computePortfolio(coins, ledger, gatewayOrders), [coins, ledger, gatewayOrders]);
+  const curve = useMemo(
+    () => buildEquityCurve(coins, ledger, gatewayOrders, marketHistory, range),
+    [coins, ledger, gatewayOrders, marketHistory, range],
+  );
+
+  const allocation = [
+    ...summary.holdings.filter(h => h.value > 0).map(h => ({ name: h.coin.symbol, value: h.value, percent: h.allocation, color: h.coin.color })),
+    ...(summary.cash > 0 ? [{ name: 'USDT', value: summary.cash, percent: summary.cashAllocation, color: CASH_COLOR }] : []),
+  ];
+  const curveStart = curve[0]?.value ?? summary.equity;
+  const curveChange = summary.equity - curveStart;
+  const curveColor = curveChange >= 0 ? '#0ecb81' : '#f6465d';
+  const timeframe = EQUITY_RANGES[range].timeframe;
+
+  return (
+    <div className="container mx-auto px-4 py-8 animate-in fade-in duration-300 space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="p-3 bg-[#f7a600]/10 rounded-xl border border-[#f7a600]/20">
+          <PieChartIcon className="w-6 h-6 text-[#f7a600]" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-white">Portfolio</h1>
+          <p className="text-sm text-gray-500">Holdings, average cost and P&L of your paper account.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard label="Total Equity" value={formatUsd(summary.equity)} />
+        <SummaryCard label="Cash (USDT)" value={formatUsd(summary.cash)} hint={`${summary.cashAllocation.toFixed(1)}% of equity`} />
+        <SummaryCard
+          label="Unrealized P&L"
+          value={formatPnl(summary.unrealizedPnl)}
+          className={pnlClass(summary.unrealizedPnl)}
+          hint={`On ${formatUsd(summary.costBasis)} cost basis`}
+        />
+        <SummaryCard label="Realized P&L" value={formatPnl(summary.realizedPnl)} className={pnlClass(summary.realizedPnl)} />
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Equity curve */}
+        <div className="flex-1 min-w-0 bg-[#1e2329] border border-[#2b3139] rounded-xl p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-sm font-bold text-white">Equity Curve</h3>
+              <span className={`text-xs font-mono ${pnlClass(curveChange)}`}>
+                {formatPnl(curveChange)} ({curveStart > 0 ? ((curveChange / curveStart) * 100).toFixed(2) : '0.00'}%)
+              </span>
+            </div>
+            <div className="flex bg-[#0e1012] rounded p-0.5">
+              {(Object.keys(EQUITY_RANGES) as EquityRange[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setRange(key)}
+                  className={`px-2.5 py-1 text-xs rounded transition-colors ${range === key ? 'bg-[#2b3139] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {EQUITY_RANGES[key].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={curve}>
+                <defs>
+                  <linearGradient id="equityGradient" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={curveColor} stopOpacity={0.3} />
+                    <stop offset="95%" stopColor={curveColor} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis dataKey="time" tickFormatter={(time) => formatCandleTime(time, timeframe)} stroke="#4b5563" fontSize={10} minTickGap={40} />
+                <YAxis domain={['auto', 'auto']} tickFormatter={(value) => `$${formatVolume(value)}`} stroke="#4b5563" fontSize={10} width={80} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e2329', border: '1px solid #2b3139', fontSize: 12 }}
+                  labelFormatter={(time) => formatCandleTime(time as number, timeframe)}
+                  formatter={(value: number) => [formatUsd(value), 'Equity']}
+                />
+                <Area type="monotone" dataKey="value" stroke={curveColor} fill="url(#equityGradient)" strokeWidth={2} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Allocation donut */}
+        <div className="w-full lg:w-80 bg-[#1e2329] border border-[#2b3139] rounded-xl p-4">
+          <h3 className="text-sm font-bold text-white mb-4">Allocation</h3>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={allocation} dataKey="value" nameKey="name" innerRadius="60%" outerRadius="90%" paddingAngle={1} stroke="none" isAnimationActive={false}>
+                  {allocation.map(slice => <Cell key={slice.name} fill={slice.color} />)}
+                </Pie>
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e2329', border: '1px solid #2b3139', fontSize: 12 }}
+                  formatter={(value: number, name: string) => [formatUsd(value), name]}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="mt-4 space-y-1.5">
+            {allocation.map(slice => (
+              <div key={slice.name} className="flex items-center justify-between text-xs">
+                <span className="flex items-center gap-2 text-gray-300">
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: slice.color }}></span>
+                  {slice.name}
+                </span>
+                <span className="font-mono text-gray-400">{slice.percent.toFixed(2)}%</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Holdings */}
+      <div className="bg-[#1e2329] border border-[#2b3139] rounded-xl overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-medium px-4 py-2">Asset</th>
+              <th className="text-right font-medium px-2 py-2">Balance</th>
+              <th className="text-right font-medium px-2 py-2">Price</th>
+              <th className="text-right font-medium px-2 py-2">Value</th>
+              <th className="text-right font-medium px-2 py-2">Avg. Cost</th>
+              <th className="text-right font-medium px-2 py-2">Unrealized P&L</th>
+              <th className="text-right font-medium px-2 py-2">Realized P&L</th>
+              <th className="text-right font-medium px-2 py-2">Allocation</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {summary.holdings.map(h => (
+              <tr key={h.coin.id} className="border-t border-[#2b3139]/50 text-[#EAECEF]">
+                <td className="px-4 py-2 font-sans">
+                  <div className="flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: h.coin.color }}></span>
+                    <span className="font-bold">{h.coin.symbol}</span>
+                    <span className="text-gray-500 hidden md:inline">{h.coin.name}</span>
+                  </div>
+                </td>
+                <td className="px-2 py-2 text-right">{h.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                <td className="px-2 py-2 text-right">{formatPrice(h.coin.currentPrice)}</td>
+                <td className="px-2 py-2 text-right">{formatUsd(h.value)}</td>
+                <td
+                  className="px-2 py-2 text-right text-gray-400"
+                  title={h.averageCost !== null && h.costedQuantity < h.quantity ? `Covers ${h.costedQuantity.toLocaleString()} of ${h.quantity.toLocaleString()}; the rest has no recorded buy` : undefined}
+                >
+                  {h.averageCost !== null ? formatPrice(h.averageCost) : '—'}
+                </td>
+                <td className={`px-2 py-2 text-right ${pnlClass(h.unrealizedPnl)}`}>
+                  {h.averageCost !== null ? `${formatPnl(h.unrealizedPnl)} (${h.unrealizedPercent.toFixed(2)}%)` : '—'}
+                </td>
+                <td className={`px-2 py-2 text-right ${pnlClass(h.realizedPnl)}`}>{h.realizedPnl !== 0 ? formatPnl(h.realizedPnl) : '—'}</td>
+                <td className="px-2 py-2 text-right text-gray-400">{h.allocation.toFixed(2)}%</td>
+                <td className="px-4 py-2 text-right font-sans">
+                  {isListed(h.coin) && <button onClick={() => onTrade(h.coin.id)} className="text-[#f7a600] hover:underline">Trade</button>}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-t border-[#2b3139]/50 text-[#EAECEF]">
+              <td className="px-4 py-2 font-sans">
+                <div className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: CASH_COLOR }}></span>
+                  <span className="font-bold">USDT</span>
+                  <span className="text-gray-500 hidden md:inline">Cash</span>
+                </div>
+              </td>
+              <td className="px-2 py-2 text-right">{summary.cash.toFixed(2)}</td>
+              <td className="px-2 py-2 text-right">1.00</td>
+              <td className="px-2 py-2 text-right">{formatUsd(summary.cash)}</td>
+              <td className="px-2 py-2 text-right text-gray-400">—</td>
+              <td className="px-2 py-2 text-right text-gray-400">—</td>
+              <td className="px-2 py-2 text-right text-gray-400">—</td>
+              <td className="px-2 py-2 text-right text-gray-400">{summary.cashAllocation.toFixed(2)}%</td>
+              <td className="px-4 py-2"></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <PortfolioAnalytics snapshots={snapshots} coins={coins} auditLog={auditLog} />
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, Bar, BarChart, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Activity } from 'lucide-react';
+import { AuditEntry, CoinData, EquityRange, EquitySnapshot } from '../types';
+import { computeEquityAnalytics, DayReturn } from '../services/equityHistory';
+import { EQUITY_RANGES, formatPnl } from '../services/portfolio';
+import { formatCandleTime } from '../services/historyStore';
+import { formatVolume } from '../services/marketStats';
+
+interface PortfolioAnalyticsProps {
+  snapshots: EquitySnapshot[];
+  coins: CoinData[];
+  auditLog: AuditEntry[];
+}
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const pnlClass = (value: number) => (value > 0 ? 'text-[#0ecb81]' : value < 0 ? 'text-[#f6465d]' : 'text-gray-400');
+
+const tooltipStyle = { backgroundColor: '#1e2329', border: '1px solid #2b3139', fontSize: 12 };
+
+const formatDay = (day: DayReturn | null) =>
+  day ? `${day.percent >= 0 ? '+' : ''}${day.percent.toFixed(2)}% on ${new Date(day.day).toLocaleDateString()}` : '—';
+
+// Risk metrics and charts computed from the recorded equity snapshots
+const PortfolioAnalytics: React.FC<PortfolioAnalyticsProps> = ({ snapshots, coins, auditLog }) => {
+  const [range, setRange] = useState<EquityRange>('1d');
+  const analytics = useMemo(() => computeEquityAnalytics(snapshots, auditLog, range), [snapshots, auditLog, range]);
+  const timeframe = EQUITY_RANGES[range].timeframe;
+  const getCoin = (coinId: string) => coins.find(c => c.id === coinId);
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center gap-2">
+        <Activity size={16} className="text-[#f7a600]" />
+        <h3 className="text-sm font-bold text-white">Value History & Risk</h3>
+        <span className="text-[10px] text-gray-500">{snapshots.length} snapshots</span>
+      </div>
+      <div className="flex bg-[#0e1012] rounded p-0.5">
+        {(Object.keys(EQUITY_RANGES) as EquityRange[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setRange(key)}
+            className={`px-2.5 py-1 text-xs rounded transition-colors ${range === key ? 'bg-[#2b3139] text-white' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {EQUITY_RANGES[key].label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (!analytics) {
+    return (
+      <div className="bg-[#1e2329] border border-[#2b3139] rounded-xl p-4">
+        {header}
+        <p className="text-sm text-gray-500">Not enough snapshots yet. Portfolio value is recorded every minute while the app is open.</p>
+      </div>
+    );
+  }
+
+  const coinIds = Array.from(new Set(analytics.series.flatMap(p => Object.keys(p.values))));
+  const { maxDrawdown } = analytics;
+  const metrics: { label: string; value: string; className?: string; hint?: string }[] = [
+    { label: 'Period Change', value: `${formatPnl(analytics.change)} (${analytics.changePercent.toFixed(2)}%)`, className: pnlClass(analytics.change) },
+    {
+      label: 'Max Drawdown',
+      value: maxDrawdown ? `${maxDrawdown.percent.toFixed(2)}% (${formatPnl(maxDrawdown.amount)})` : '—',
+      className: maxDrawdown ? 'text-[#f6465d]' : undefined,
+      hint: maxDrawdown
+        ? `Peak ${new Date(maxDrawdown.peakTime).toLocaleString()}, trough ${new Date(maxDrawdown.troughTime).toLocaleString()}, ${maxDrawdown.recoveredTime ? `recovered ${new Date(maxDrawdown.recoveredTime).toLocaleString()}` : 'not recovered'}`
+        : undefined,
+    },
+    { label: 'Volatility (daily)', value: analytics.dailyVolatility !== null ? `${analytics.dailyVolatility.toFixed(2)}%` : '—' },
+    { label: 'Volatility (annualized)', value: analytics.annualizedVolatility !== null ? `${analytics.annualizedVolatility.toFixed(2)}%` : '—' },
+    { label: 'Best Day', value: formatDay(analytics.bestDay), className: analytics.bestDay ? pnlClass(analytics.bestDay.change) : undefined },
+    { label: 'Worst Day', value: formatDay(analytics.worstDay), className: analytics.worstDay ? pnlClass(analytics.worstDay.change) : undefined },
+  ];
+  const contributionData = [
+    ...analytics.contributions.map(c => ({ name: getCoin(c.coinId)?.symbol ?? c.coinId, value: c.contribution })),
+    { name: 'Other', value: analytics.flows },
+  ];
+
+  return (
+    <div className="bg-[#1e2329] border border-[#2b3139] rounded-xl p-4 space-y-6">
+      {header}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Equity with repricing markers, and the drawdown below it */}
+        <div>
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">Equity & Drawdown</div>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={analytics.series} syncId="equity-analytics">
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} hide />
+                <YAxis domain={['auto', 'auto']} tickFormatter={(value) => `$${formatVolume(value)}`} stroke="#4b5563" fontSize={10} width={70} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(time) => new Date(time as number).toLocaleString()} formatter={(value: number) => [formatUsd(value), 'Equity']} />
+                {analytics.repricings.map(r => (
+                  <ReferenceLine key={r.entry.id} x={r.entry.timestamp} stroke="#f7a600" strokeDasharray="3 3" />
+                ))}
+                <Area type="monotone" dataKey="equity" stroke="#f7a600" fill="#f7a600" fillOpacity={0.1} strokeWidth={2} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-24">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={analytics.series} syncId="equity-analytics">
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={(time) => formatCandleTime(time, timeframe)} stroke="#4b5563" fontSize={10} minTickGap={40} />
+                <YAxis tickFormatter={(value) => `${value.toFixed(0)}%`} stroke="#4b5563" fontSize={10} width={70} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(time) => new Date(time as number).toLocaleString()} formatter={(value: number) => [`${value.toFixed(2)}%`, 'Drawdown']} />
+                <Area type="stepAfter" dataKey="drawdown" stroke="#f6465d" fill="#f6465d" fillOpacity={0.2} isAnimationActive={false} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {/* Value of each holding, stacked */}
+        <div>
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">Value by Coin</div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={analytics.series}>
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={(time) => formatCandleTime(time, timeframe)} stroke="#4b5563" fontSize={10} minTickGap={40} />
+                <YAxis tickFormatter={(value) => `$${formatVolume(value)}`} stroke="#4b5563" fontSize={10} width={70} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(time) => new Date(time as number).toLocaleString()} formatter={(value: number, name: string) => [formatUsd(value), name]} />
+                {coinIds.map(coinId => {
+                  const coin = getCoin(coinId);
+                  return (
+                    <Area
+                      key={coinId}
+                      type="monotone"
+                      dataKey={(point) => point.values[coinId] ?? 0}
+                      name={coin?.symbol ?? coinId}
+                      stackId="value"
+                      stroke={coin?.color ?? '#6b7280'}
+                      fill={coin?.color ?? '#6b7280'}
+                      fillOpacity={0.3}
+                      isAnimationActive={false}
+                    />
+                  );
+                })}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Metrics */}
+        <table className="w-full text-xs self-start">
+          <tbody>
+            {metrics.map(metric => (
+              <tr key={metric.label} className="border-t border-[#2b3139]/50 first:border-t-0">
+                <td className="py-2 text-gray-500 align-top">{metric.label}</td>
+                <td className="py-2 text-right">
+                  <div className={`font-mono ${metric.className ?? 'text-[#EAECEF]'}`}>{metric.value}</div>
+                  {metric.hint && <div className="text-[10px] text-gray-500 mt-0.5">{metric.hint}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {/* Contribution per coin */}
+        <div>
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2" title="P&L from price moves while held. Other covers trading costs, balance edits and Telegram fills.">
+            Contribution to Change
+          </div>
+          <div style={{ height: Math.max(120, contributionData.length * 28) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={contributionData} layout="vertical">
+                <XAxis type="number" tickFormatter={(value) => `$${formatVolume(value)}`} stroke="#4b5563" fontSize={10} />
+                <YAxis type="category" dataKey="name" stroke="#4b5563" fontSize={10} width={60} />
+                <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#2b3139' }} formatter={(value: number) => [formatPnl(value), 'Contribution']} />
+                <ReferenceLine x={0} stroke="#4b5563" />
+                <Bar dataKey="value" isAnimationActive={false}>
+                  {contributionData.map(entry => <Cell key={entry.name} fill={entry.value >= 0 ? '#0ecb81' : '#f6465d'} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      {/* Admin repricings in the window and what they did to this portfolio */}
+      {analytics.repricings.length > 0 && (
+        <div>
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">Repricing Impact</div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left font-medium py-1">Time</th>
+                  <th className="text-left font-medium px-2 py-1">Coin</th>
+                  <th className="text-right font-medium px-2 py-1">Base Price</th>
+                  <th className="text-right font-medium px-2 py-1">Held</th>
+                  <th className="text-right font-medium px-2 py-1">Impact</th>
+                  <th className="text-right font-medium py-1">Of Equity</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {analytics.repricings.map(r => (
+                  <tr key={r.entry.id} className="border-t border-[#2b3139]/50 text-[#EAECEF]" title={r.entry.reason}>
+                    <td className="py-1 text-gray-500">{new Date(r.entry.timestamp).toLocaleString()}</td>
+                    <td className="px-2 py-1">{getCoin(r.entry.coinId)?.symbol ?? r.entry.coinId}</td>
+                    <td className="px-2 py-1 text-right">${r.entry.previousValue.toFixed(8)} → ${r.entry.newValue.toFixed(8)}</td>
+                    <td className="px-2 py-1 text-right">{r.balance.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                    <td className={`px-2 py-1 text-right ${pnlClass(r.impact)}`}>{formatPnl(r.impact)}</td>
+                    <td className={`py-1 text-right ${pnlClass(r.impact)}`}>{r.equityPercent.toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioAnalytics;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { ArrowUpRight, ArrowDownRight } from 'lucide-react';
+
+interface PriceChangeProps {
+  percent: number;
+  showArrow?: boolean;
+  className?: string;
+}
+
+// Signed percentage change, coloured and (optionally) arrowed by direction
+const PriceChange: React.FC<PriceChangeProps> = ({ percent, showArrow = false, className = '' }) => {
+  const isUp = percent >= 0;
+  return (
+    <span className={`inline-flex items-center gap-1 ${isUp ? 'text-[#0ecb81]' : 'text-[#f6465d]'} ${className}`}>
+      {showArrow && (isUp ? <ArrowUpRight size={12} /> : <ArrowDownRight size={12} />)}
+      {isUp ? '+' : ''}{percent.toFixed(2)}%
+    </span>
+  );
+};
+
+export default PriceChange;
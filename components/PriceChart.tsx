@@ -1,17 +1,200 @@
-
 import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { PricePoint } from '../types';
+import { ComposedChart, Area, Line, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, TooltipProps } from 'recharts';
+import { Candle, ChartMode, IndicatorConfig, PricePoint } from '../types';
+import { toHeikinAshi } from '../services/chartData';
+import { computeIndicator, describeIndicator, INDICATOR_DEFINITIONS } from '../services/indicators';
 
 interface PriceChartProps {
   data: PricePoint[];
   color: string;
   height?: number | string;
   detailed?: boolean;
+  mode?: ChartMode;
+  candles?: Candle[]; // When given, the detailed chart is drawn from candles rather than `data`
+  formatLabel?: (time: number) => string;
+  indicators?: IndicatorConfig[]; // Only drawn in the detailed view
+}
+
+interface ChartRow {
+  time: string;
+  value: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  range?: [number, number];
+  isUp?: boolean;
+  [indicatorKey: string]: unknown;
+}
+
+const UP_COLOR = '#0ecb81';
+const DOWN_COLOR = '#f6465d';
+const PANE_HEIGHT = 110;
+const SYNC_ID = 'price-chart';
+
+// The parts of recharts' bar shape props a candle is drawn from
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: Required<ChartRow>;
 }
 
-const PriceChart: React.FC<PriceChartProps> = ({ data, color, height = 120, detailed = false }) => {
-  if (!data || data.length === 0) {
+// Draws one candle over the [low, high] range bar recharts lays out for us
+const renderCandle = (style: 'candles' | 'ohlc') => (props: CandleShapeProps) => {
+  const { x, y, width, height, payload } = props;
+  const { open, high, low, close } = payload;
+  const toY = (value: number) => (high === low ? y : y + ((high - value) / (high - low)) * height);
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const center = x + width / 2;
+
+  if (style === 'ohlc') {
+    return (
+      <g stroke={color} strokeWidth={1.5}>
+        <line x1={center} x2={center} y1={y} y2={y + height} />
+        <line x1={x} x2={center} y1={toY(open)} y2={toY(open)} />
+        <line x1={center} x2={x + width} y1={toY(close)} y2={toY(close)} />
+      </g>
+    );
+  }
+
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x} y={bodyTop} width={Math.max(1, width)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const formatPrice = (value: number) =>
+  Math.abs(value) < 0.000001 && value !== 0 ? value.toExponential(4) : value.toFixed(8);
+
+const CandleTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const row: Required<ChartRow> = payload[0].payload;
+  const overlays = payload.filter(item => item.dataKey !== 'range' && typeof item.value === 'number');
+  return (
+    <div className="bg-[#1e2329] border border-[#2b3139] rounded p-2 text-xs font-mono text-[#EAECEF]">
+      <div className="text-gray-400 mb-1">{label}</div>
+      <div>O {formatPrice(row.open)}</div>
+      <div>H {formatPrice(row.high)}</div>
+      <div>L {formatPrice(row.low)}</div>
+      <div style={{ color: row.close >= row.open ? UP_COLOR : DOWN_COLOR }}>C {formatPrice(row.close)}</div>
+      {overlays.map(item => (
+        <div key={String(item.dataKey)} style={{ color: item.color }}>{item.name} {formatPrice(item.value!)}</div>
+      ))}
+    </div>
+  );
+};
+
+const tooltipStyle = {
+  backgroundColor: '#1e2329',
+  borderColor: '#2b3139',
+  color: '#EAECEF',
+  fontSize: '12px',
+  borderRadius: '4px',
+  padding: '8px'
+};
+
+const defaultFormatLabel = (time: number) => new Date(time).toLocaleTimeString();
+
+const formatTime = (timeStr: string) => {
+  return timeStr.split(':').slice(0, 2).join(':');
+};
+
+// One sub-pane (RSI, MACD or volume) sharing the main chart's x-axis and cursor
+const IndicatorPane: React.FC<{ config: IndicatorConfig; rows: ChartRow[] }> = ({ config, rows }) => {
+  const { id, type, color } = config;
+  return (
+    <div className="relative border-t border-[#2b3139]" style={{ height: PANE_HEIGHT }}>
+      <div className="absolute top-1 left-2 z-10 text-[10px] font-mono" style={{ color }}>{describeIndicator(config)}</div>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={rows} syncId={SYNC_ID} margin={{ top: 16, right: 65, left: 10, bottom: 0 }}>
+          <XAxis dataKey="time" hide />
+          <YAxis
+            domain={type === 'rsi' ? [0, 100] : ['auto', 'auto']}
+            orientation="right"
+            stroke="#4b5563"
+            fontSize={10}
+            tickLine={false}
+            axisLine={false}
+            width={65}
+            tickCount={3}
+            tickFormatter={(val: number) => (type === 'rsi' ? val.toFixed(0) : Number(val.toPrecision(3)).toString())}
+          />
+          <Tooltip
+            isAnimationActive={false}
+            cursor={{ stroke: '#4b5563', strokeDasharray: '3 3' }}
+            wrapperStyle={{ outline: 'none' }}
+            contentStyle={tooltipStyle}
+            labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
+            formatter={(value: number, name: string) => [Number(value.toPrecision(6)).toString(), name]}
+          />
+          {type === 'rsi' && (
+            <>
+              <ReferenceLine y={70} stroke="#4b5563" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="#4b5563" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey={id} name="RSI" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+            </>
+          )}
+          {type === 'macd' && (
+            <>
+              <Bar dataKey={`${id}_hist`} name="Histogram" isAnimationActive={false}>
+                {rows.map((row, i) => (
+                  <Cell key={i} fill={(row[`${id}_hist`] as number) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+                ))}
+              </Bar>
+              <Line type="monotone" dataKey={`${id}_macd`} name="MACD" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+              <Line type="monotone" dataKey={`${id}_signal`} name="Signal" stroke="#9ca3af" strokeWidth={1} dot={false} isAnimationActive={false} connectNulls />
+            </>
+          )}
+          {type === 'volume' && (
+            <Bar dataKey={id} name="Volume" isAnimationActive={false}>
+              {rows.map((row, i) => (
+                <Cell key={i} fill={row.isUp === false ? DOWN_COLOR : UP_COLOR} fillOpacity={0.6} />
+              ))}
+            </Bar>
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({ data, color, height = 120, detailed = false, mode = 'area', candles, formatLabel = defaultFormatLabel, indicators = [] }) => {
+  const hasCandles = !!candles && candles.length > 0;
+  const isCandleMode = (mode === 'candles' || mode === 'ohlc' || mode === 'heikin-ashi') && hasCandles;
+  const activeIndicators = detailed && hasCandles ? indicators : [];
+  const overlays = activeIndicators.filter(ind => INDICATOR_DEFINITIONS[ind.type].placement === 'overlay');
+  const panes = activeIndicators.filter(ind => INDICATOR_DEFINITIONS[ind.type].placement === 'pane');
+
+  let rows: ChartRow[] = (data || []).map(point => ({ ...point }));
+  if (hasCandles) {
+    // Indicators are computed on the real candles even when Heikin-Ashi is drawn
+    const series = activeIndicators.map(ind => computeIndicator(ind, candles!));
+    const drawn = mode === 'heikin-ashi' ? toHeikinAshi(candles!) : candles!;
+    rows = drawn.map((c, i) => {
+      const row: ChartRow = {
+        time: formatLabel(c.time),
+        value: c.close,
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+        range: [c.low, c.high],
+        isUp: c.close >= c.open,
+      };
+      series.forEach(keyed => Object.keys(keyed).forEach(key => {
+        row[key] = keyed[key][i];
+      }));
+      return row;
+    });
+  }
+
+  if (!rows || rows.length === 0) {
     return (
       <div style={{ height: typeof height === 'number' ? height : '100%' }} className="w-full flex items-center justify-center bg-[#171a1e] rounded border border-gray-800 border-dashed text-gray-600 text-xs font-mono">
         LOADING MARKET DATA...
@@ -19,8 +202,15 @@ const PriceChart: React.FC<PriceChartProps> = ({ data, color, height = 120, deta
     );
   }
 
-  const prices = data.map(d => d.value);
-  
+  // Overlay series share the price axis, so they count towards its range
+  const overlayKeys = overlays.flatMap(ind =>
+    ind.type === 'bollinger' ? [`${ind.id}_upper`, `${ind.id}_middle`, `${ind.id}_lower`] : [ind.id]
+  );
+  const prices = [
+    ...(isCandleMode ? rows.flatMap(row => [row.low!, row.high!]) : rows.map(d => d.value)),
+    ...rows.flatMap(row => overlayKeys.map(key => row[key]).filter((v): v is number => typeof v === 'number')),
+  ];
+
   let min = Math.min(...prices);
   let max = Math.max(...prices);
 
@@ -44,10 +234,6 @@ const PriceChart: React.FC<PriceChartProps> = ({ data, color, height = 120, deta
       max = max + range * padding;
   }
 
-  const formatTime = (timeStr: string) => {
-    return timeStr.split(':').slice(0, 2).join(':');
-  };
-
   // Helper for tick formatting on Y-axis
   const formatYAxis = (val: number) => {
       if (val === 0) return "0.00";
@@ -57,80 +243,112 @@ const PriceChart: React.FC<PriceChartProps> = ({ data, color, height = 120, deta
       return val.toFixed(2);
   };
 
+  const renderOverlay = (ind: IndicatorConfig) => {
+    const name = describeIndicator(ind);
+    if (ind.type === 'bollinger') {
+      return [
+        <Line key={`${ind.id}_upper`} type="monotone" dataKey={`${ind.id}_upper`} name={`${name} Upper`} stroke={ind.color} strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />,
+        <Line key={`${ind.id}_middle`} type="monotone" dataKey={`${ind.id}_middle`} name={`${name} Basis`} stroke={ind.color} strokeWidth={1} dot={false} isAnimationActive={false} connectNulls />,
+        <Line key={`${ind.id}_lower`} type="monotone" dataKey={`${ind.id}_lower`} name={`${name} Lower`} stroke={ind.color} strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />,
+      ];
+    }
+    return <Line key={ind.id} type="monotone" dataKey={ind.id} name={name} stroke={ind.color} strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />;
+  };
+
   return (
-    <div className="w-full select-none" style={{ height: typeof height === 'number' ? height : '100%', minHeight: detailed ? 300 : undefined }}>
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart
-          data={data}
-          margin={detailed ? { top: 20, right: 65, left: 10, bottom: 20 } : { top: 5, right: 0, left: 0, bottom: 0 }}
-        >
-          <defs>
-            <linearGradient id={`gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
-              <stop offset="0%" stopColor={color} stopOpacity={detailed ? 0.15 : 0.25} />
-              <stop offset="100%" stopColor={color} stopOpacity={0} />
-            </linearGradient>
-          </defs>
-          
-          {detailed && (
-            <CartesianGrid stroke="#2b3139" strokeDasharray="3 3" vertical={false} />
-          )}
+    <div className="w-full select-none flex flex-col" style={{ height: typeof height === 'number' ? height : '100%', minHeight: detailed ? 300 : undefined }}>
+      <div className="relative flex-1 min-h-0">
+        {overlays.length > 0 && (
+          <div className="absolute top-1 left-2 z-10 flex flex-wrap gap-3 text-[10px] font-mono">
+            {overlays.map(ind => <span key={ind.id} style={{ color: ind.color }}>{describeIndicator(ind)}</span>)}
+          </div>
+        )}
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={rows}
+            syncId={panes.length > 0 ? SYNC_ID : undefined}
+            margin={detailed ? { top: 20, right: 65, left: 10, bottom: 20 } : { top: 5, right: 0, left: 0, bottom: 0 }}
+          >
+            <defs>
+              <linearGradient id={`gradient-${color}`} x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor={color} stopOpacity={detailed ? 0.15 : 0.25} />
+                <stop offset="100%" stopColor={color} stopOpacity={0} />
+              </linearGradient>
+            </defs>
 
-          <XAxis 
-            dataKey="time" 
-            hide={!detailed} 
-            tickFormatter={formatTime}
-            stroke="#4b5563"
-            fontSize={11}
-            tickLine={false}
-            axisLine={false}
-            minTickGap={50}
-          />
-          
-          <YAxis 
-            domain={[min, max]} 
-            hide={!detailed} 
-            orientation="right"
-            stroke="#4b5563"
-            fontSize={11}
-            tickLine={false}
-            axisLine={false}
-            tickFormatter={formatYAxis}
-            width={65}
-          />
+            {detailed && (
+              <CartesianGrid stroke="#2b3139" strokeDasharray="3 3" vertical={false} />
+            )}
 
-          <Tooltip 
-            isAnimationActive={false} 
-            cursor={detailed ? { stroke: '#4b5563', strokeDasharray: '3 3' } : false}
-            content={detailed ? undefined : <></>} 
-            wrapperStyle={{ outline: 'none' }}
-            contentStyle={{ 
-              backgroundColor: '#1e2329', 
-              borderColor: '#2b3139', 
-              color: '#EAECEF', 
-              fontSize: '12px',
-              borderRadius: '4px',
-              padding: '8px'
-            }}
-            itemStyle={{ color: color }}
-            labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
-            formatter={(value: number) => [
-                Math.abs(value) < 0.000001 && value !== 0 ? value.toExponential(4) : value.toFixed(8), 
-                'Price'
-            ]}
-          />
+            <XAxis
+              dataKey="time"
+              hide={!detailed}
+              tickFormatter={formatTime}
+              stroke="#4b5563"
+              fontSize={11}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={50}
+            />
 
-          <Area 
-            type="monotone" 
-            dataKey="value" 
-            stroke={color} 
-            strokeWidth={2}
-            fill={`url(#gradient-${color})`} 
-            isAnimationActive={false}
-            dot={false}
-            activeDot={{ r: 4, strokeWidth: 0, fill: color }}
-          />
-        </AreaChart>
-      </ResponsiveContainer>
+            <YAxis
+              domain={[min, max]}
+              hide={!detailed}
+              orientation="right"
+              stroke="#4b5563"
+              fontSize={11}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={formatYAxis}
+              width={65}
+            />
+
+            <Tooltip
+              isAnimationActive={false}
+              cursor={detailed ? { stroke: '#4b5563', strokeDasharray: '3 3' } : false}
+              content={!detailed ? <></> : isCandleMode ? <CandleTooltip /> : undefined}
+              wrapperStyle={{ outline: 'none' }}
+              contentStyle={tooltipStyle}
+              labelStyle={{ color: '#9ca3af', marginBottom: '4px' }}
+              formatter={(value: number, name: string) => [formatPrice(value), name]}
+            />
+
+            {isCandleMode ? (
+              <Bar
+                dataKey="range"
+                shape={renderCandle(mode === 'ohlc' ? 'ohlc' : 'candles')}
+                isAnimationActive={false}
+              />
+            ) : mode === 'line' ? (
+              <Line
+                type="monotone"
+                dataKey="value"
+                name="Price"
+                stroke={color}
+                strokeWidth={2}
+                isAnimationActive={false}
+                dot={false}
+                activeDot={{ r: 4, strokeWidth: 0, fill: color }}
+              />
+            ) : (
+              <Area
+                type="monotone"
+                dataKey="value"
+                name="Price"
+                stroke={color}
+                strokeWidth={2}
+                fill={`url(#gradient-${color})`}
+                isAnimationActive={false}
+                dot={false}
+                activeDot={{ r: 4, strokeWidth: 0, fill: color }}
+              />
+            )}
+
+            {overlays.map(renderOverlay)}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {panes.map(ind => <IndicatorPane key={ind.id} config={ind} rows={rows} />)}
     </div>
   );
 };
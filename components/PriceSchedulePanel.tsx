@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { CalendarClock, X } from 'lucide-react';
+import { CoinData, EasingCurve, PriceSchedule } from '../types';
+import { EASING_LABELS, getScheduleStatus } from '../services/priceSchedules';
+
+interface PriceSchedulePanelProps {
+  coin: CoinData;
+  schedules: PriceSchedule[];
+  onAddSchedule: (schedule: Omit<PriceSchedule, 'id'>) => void;
+  onCancelSchedule: (id: string) => void;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInput = (ms: number) =>
+  new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const STATUS_STYLES = {
+  pending: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  active: 'bg-purple-500/10 text-purple-300 border-purple-500/20',
+  done: 'bg-gray-700/40 text-gray-400 border-gray-600',
+};
+
+const PriceSchedulePanel: React.FC<PriceSchedulePanelProps> = ({ coin, schedules, onAddSchedule, onCancelSchedule }) => {
+  const [targetPrice, setTargetPrice] = useState('');
+  const [startAt, setStartAt] = useState(() => toLocalInput(Date.now()));
+  const [durationMinutes, setDurationMinutes] = useState('5');
+  const [easing, setEasing] = useState<EasingCurve>('linear');
+
+  const now = Date.now();
+  const target = parseFloat(targetPrice);
+  const duration = parseFloat(durationMinutes);
+  const isValid = !isNaN(target) && target >= 0 && !isNaN(duration) && duration >= 0 && startAt !== '';
+
+  const handleSchedule = () => {
+    if (!isValid) return;
+    onAddSchedule({
+      coinId: coin.id,
+      targetPrice: target,
+      // A start time in the past simply begins on the next tick
+      startAt: Math.max(now, new Date(startAt).getTime()),
+      duration: duration * 60000,
+      easing,
+    });
+    setTargetPrice('');
+  };
+
+  const inputClass = "w-full bg-gray-950 border border-gray-700 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition-all text-sm";
+
+  return (
+    <div className="mt-6 pt-5 border-t border-gray-700/60">
+      <div className="flex items-center gap-2 mb-3 text-xs font-semibold text-gray-500 uppercase">
+        <CalendarClock size={14} /> Scheduled Price Change
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <label className="block text-[10px] text-gray-500 uppercase mb-1">Target ($)</label>
+          <input type="number" step="0.0001" min="0" value={targetPrice} onChange={(e) => setTargetPrice(e.target.value)} placeholder={coin.basePrice.toString()} className={`${inputClass} font-mono`} />
+        </div>
+        <div className="col-span-2 md:col-span-1">
+          <label className="block text-[10px] text-gray-500 uppercase mb-1">Start</label>
+          <input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 uppercase mb-1">Duration (min)</label>
+          <input type="number" min="0" step="1" value={durationMinutes} onChange={(e) => setDurationMinutes(e.target.value)} className={`${inputClass} font-mono`} />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-500 uppercase mb-1">Curve</label>
+          <select value={easing} onChange={(e) => setEasing(e.target.value as EasingCurve)} className={inputClass}>
+            {(Object.keys(EASING_LABELS) as EasingCurve[]).map(curve => (
+              <option key={curve} value={curve}>{EASING_LABELS[curve]}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleSchedule}
+          disabled={!isValid}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-sm font-medium"
+        >
+          Schedule
+        </button>
+      </div>
+
+      {schedules.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {schedules.map(schedule => {
+            const status = getScheduleStatus(schedule, now);
+            const progress = status === 'active' && schedule.duration > 0
+              ? ((now - schedule.startAt) / schedule.duration) * 100
+              : 0;
+            return (
+              <div key={schedule.id} className="flex items-center justify-between gap-3 bg-gray-950/60 border border-gray-700 rounded-lg px-3 py-2 text-xs">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className={`px-2 py-0.5 rounded border uppercase font-bold text-[10px] ${STATUS_STYLES[status]}`}>
+                    {status === 'active' ? `${progress.toFixed(0)}%` : status}
+                  </span>
+                  <span className="font-mono text-gray-300 truncate">
+                    ${(schedule.fromPrice ?? coin.basePrice).toFixed(8)} → ${schedule.targetPrice.toFixed(8)}
+                  </span>
+                  <span className="hidden md:inline text-gray-500">
+                    {new Date(schedule.startAt).toLocaleString()} · {Math.round(schedule.duration / 60000)} min · {EASING_LABELS[schedule.easing]}
+                  </span>
+                </div>
+                <button
+                  onClick={() => onCancelSchedule(schedule.id)}
+                  className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Cancel schedule"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceSchedulePanel;
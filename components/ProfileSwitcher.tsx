@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Plus } from 'lucide-react';
+import { Profile } from '../types';
+import { getProfileInitial } from '../services/profiles';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onCreate: (name: string) => { ok: true } | { ok: false; error: string };
+}
+
+const ProfileAvatar: React.FC<{ profile: Profile; size?: string }> = ({ profile, size = 'w-7 h-7 text-xs' }) => (
+  <div className={`${size} rounded-full flex items-center justify-center font-bold text-[#121518] flex-shrink-0`} style={{ backgroundColor: profile.color }}>
+    {getProfileInitial(profile)}
+  </div>
+);
+
+// Nav bar menu for switching between demo personas or adding a new one
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, onSwitch, onCreate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleCreate = () => {
+    const result = onCreate(name);
+    if (result.ok === false) {
+      setError(result.error);
+      return;
+    }
+    setName('');
+    setError(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-[#1e2227] pl-1.5 pr-2 py-1 rounded border border-[#2b3139] hover:border-gray-600 transition-colors"
+        title="Switch profile"
+      >
+        <ProfileAvatar profile={active} />
+        <span className="hidden lg:block text-sm text-[#EAECEF] max-w-[120px] truncate">{active.name}</span>
+        <ChevronDown size={14} className="text-gray-500" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-[#1e2329] border border-[#2b3139] rounded-lg shadow-xl z-50 animate-in fade-in zoom-in-95 duration-100">
+          <div className="px-3 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-wider border-b border-[#2b3139]">Profiles</div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar py-1">
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => { onSwitch(profile.id); setIsOpen(false); }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-[#2b3139] transition-colors"
+              >
+                <ProfileAvatar profile={profile} size="w-6 h-6 text-[10px]" />
+                <span className="flex-1 truncate text-[#EAECEF]">{profile.name}</span>
+                {profile.id === activeProfileId && <Check size={14} className="text-[#f7a600]" />}
+              </button>
+            ))}
+          </div>
+          <div className="border-t border-[#2b3139] p-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => { setName(e.target.value); setError(null); }}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                placeholder="New profile name"
+                className="flex-1 min-w-0 bg-[#0e1012] border border-[#2b3139] text-white rounded px-2 py-1.5 text-xs focus:border-[#f7a600] outline-none transition-colors"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim()}
+                className="px-2 bg-[#f7a600] hover:bg-[#d97706] disabled:opacity-50 disabled:cursor-not-allowed text-black rounded transition-colors"
+                title="Add profile"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+            {error && <div className="text-[10px] text-red-400 mt-1">{error}</div>}
+            <div className="text-[10px] text-gray-500 mt-2">New profiles start with the default USDT balance and no coins.</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
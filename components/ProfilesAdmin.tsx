@@ -0,0 +1,83 @@
+import React from 'react';
+import { Trash2, Users } from 'lucide-react';
+import { CoinData, Ledger, Profile } from '../types';
+import { getBalance, getTotalAssets } from '../services/ledger';
+import { DEFAULT_PROFILE_ID, getProfileInitial } from '../services/profiles';
+import { getOpenOrders } from '../services/orders';
+
+interface ProfilesAdminProps {
+  profiles: Profile[];
+  ledgers: Record<string, Ledger>;
+  coins: CoinData[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onDelete: (profileId: string) => void;
+}
+
+// Admin overview of every profile: cash, equity, open orders and coin holdings
+const ProfilesAdmin: React.FC<ProfilesAdminProps> = ({ profiles, ledgers, coins, activeProfileId, onSwitch, onDelete }) => (
+  <div className="bg-gray-800/40 rounded-xl border border-gray-700 p-5">
+    <div className="flex items-center gap-3 mb-4">
+      <Users size={18} className="text-purple-400" />
+      <h3 className="text-lg font-bold text-white">Profiles</h3>
+      <span className="text-xs text-gray-500">{profiles.length} on this machine</span>
+    </div>
+
+    <div className="space-y-2">
+      {profiles.map(profile => {
+        const ledger = ledgers[profile.id];
+        if (!ledger) return null;
+        const holdings = coins.filter(c => getBalance(ledger, c.id) > 0);
+        return (
+          <div key={profile.id} className="bg-gray-950/60 border border-gray-700 rounded-lg px-3 py-3 text-xs space-y-2">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+              <div className="flex items-center gap-2 flex-1 min-w-[140px]">
+                <div className="w-6 h-6 rounded-full flex items-center justify-center font-bold text-[10px] text-gray-900" style={{ backgroundColor: profile.color }}>
+                  {getProfileInitial(profile)}
+                </div>
+                <span className="font-bold text-white text-sm">{profile.name}</span>
+                {profile.id === activeProfileId && (
+                  <span className="px-1.5 rounded bg-purple-500/10 text-purple-300 border border-purple-500/20 text-[10px] uppercase">Active</span>
+                )}
+              </div>
+              <span className="text-gray-400">Equity <span className="font-mono text-white">${getTotalAssets(ledger, coins).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span></span>
+              <span className="text-gray-400">Cash <span className="font-mono text-white">{ledger.cash.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT</span></span>
+              <span className="text-gray-400">{ledger.fills.length} fills · {getOpenOrders(ledger).length} open orders</span>
+              <div className="flex gap-2">
+                {profile.id !== activeProfileId && (
+                  <button onClick={() => onSwitch(profile.id)} className="px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors">
+                    Switch to
+                  </button>
+                )}
+                {profile.id !== DEFAULT_PROFILE_ID && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete ${profile.name}? Its wallet, orders and history are removed.`)) onDelete(profile.id);
+                    }}
+                    className="px-2 py-1 bg-gray-800 hover:bg-gray-700 text-red-400 rounded transition-colors"
+                    title="Delete profile"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+            {holdings.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {holdings.map(coin => (
+                  <span key={coin.id} className="px-2 py-0.5 rounded border border-gray-700 font-mono text-gray-300">
+                    <span style={{ color: coin.color }}>{coin.symbol}</span> {getBalance(ledger, coin.id).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <div className="text-gray-500">No coin holdings.</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default ProfilesAdmin;
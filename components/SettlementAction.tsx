@@ -0,0 +1,88 @@
+import React from 'react';
+import { ExternalLink, Hammer, LucideIcon, Rabbit, Shield, TrendingUp } from 'lucide-react';
+import { CoinData, SettlementIcon, TradeSide } from '../types';
+import { usesOrderTicket } from '../services/settlement';
+import { isTradingPaused } from '../services/listings';
+import CountdownTimer from './CountdownTimer';
+
+interface SettlementActionProps {
+  coin: CoinData;
+  variant: 'card' | 'panel'; // Market card footer or trade view action panel
+  onOpenTicket: (side: TradeSide) => void;
+}
+
+const SETTLEMENT_ICONS: Record<SettlementIcon, LucideIcon> = {
+  'trending-up': TrendingUp,
+  rabbit: Rabbit,
+  'external-link': ExternalLink,
+  hammer: Hammer,
+  shield: Shield,
+};
+
+// Buy (and, for order-ticket coins, sell) buttons rendered from the coin's settlement descriptor
+const SettlementAction: React.FC<SettlementActionProps> = ({ coin, variant, onOpenTicket }) => {
+  const { settlement } = coin;
+  const isCard = variant === 'card';
+
+  if (!settlement || isTradingPaused(coin)) {
+    return (
+      <button
+        disabled
+        className={`${isCard ? 'w-full py-2.5 text-sm' : 'w-full md:w-64 py-3'} flex items-center justify-center gap-2 bg-[#2b3139] text-gray-500 font-semibold rounded cursor-not-allowed border border-[#363c45]`}
+      >
+        {settlement ? 'Trading Paused' : 'Not Tradable Yet'}
+      </button>
+    );
+  }
+
+  const Icon = SETTLEMENT_ICONS[settlement.icon];
+  const buttonClass = `flex items-center justify-center gap-2 text-white rounded transition-all hover:brightness-110 ${isCard ? 'w-full py-2.5 font-semibold text-sm' : 'font-bold py-3'}`;
+  const primary = usesOrderTicket(coin) ? (
+    <button onClick={() => onOpenTicket('buy')} className={`${buttonClass} ${isCard ? '' : 'flex-1 md:w-48'}`} style={{ backgroundColor: settlement.color }}>
+      {settlement.label} <Icon size={isCard ? 14 : 16} />
+    </button>
+  ) : (
+    <a
+      href={settlement.url}
+      target="_blank"
+      rel="noreferrer"
+      className={`${buttonClass} ${isCard ? '' : 'w-full md:w-64'}`}
+      style={{ backgroundColor: settlement.color }}
+    >
+      {settlement.label} <Icon size={isCard ? 14 : 16} />
+    </a>
+  );
+  const widget = settlement.widget === 'podway-launch' ? <CountdownTimer /> : null;
+
+  if (isCard) {
+    return (
+      <div className="space-y-3">
+        {primary}
+        {widget}
+        {settlement.caption && (
+          <div className="flex items-center justify-center gap-2 text-[10px] text-gray-500 uppercase tracking-wider">
+            {usesOrderTicket(coin) && <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>}
+            {settlement.caption}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col md:flex-row gap-3 w-full md:w-auto">
+      {widget && <div className="w-full md:w-48">{widget}</div>}
+      {primary}
+      {usesOrderTicket(coin) && (
+        <button
+          onClick={() => onOpenTicket('sell')}
+          className="flex-1 md:w-32 bg-[#f6465d] hover:bg-[#f6465d]/90 text-white font-bold py-3 rounded transition-colors flex items-center justify-center gap-2"
+        >
+          Sell {coin.symbol}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SettlementAction;
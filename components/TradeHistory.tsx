@@ -0,0 +1,53 @@
+import React from 'react';
+import { CoinData, Fill } from '../types';
+import { ORDER_TYPE_LABELS } from '../services/orders';
+
+interface TradeHistoryProps {
+  fills: Fill[];
+  coins: CoinData[];
+}
+
+// The user's executed paper trades, newest first
+const TradeHistory: React.FC<TradeHistoryProps> = ({ fills, coins }) => {
+  const recent = fills.slice().reverse();
+
+  if (recent.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-xs text-gray-600">No trades yet.</div>;
+  }
+
+  return (
+    <div className="overflow-y-auto flex-1 custom-scrollbar">
+      <table className="w-full text-xs">
+        <thead className="text-gray-500 sticky top-0 bg-[#1e2329]">
+          <tr>
+            <th className="text-left font-medium px-4 py-1">Time</th>
+            <th className="text-left font-medium px-2 py-1">Pair</th>
+            <th className="text-left font-medium px-2 py-1">Side</th>
+            <th className="text-left font-medium px-2 py-1">Type</th>
+            <th className="text-right font-medium px-2 py-1">Price</th>
+            <th className="text-right font-medium px-2 py-1">Amount</th>
+            <th className="text-right font-medium px-4 py-1">Total (USDT)</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {recent.map(fill => {
+            const coin = coins.find(c => c.id === fill.coinId);
+            return (
+              <tr key={fill.id} className="border-t border-[#2b3139]/50 text-[#EAECEF]">
+                <td className="px-4 py-1 text-gray-500">{new Date(fill.timestamp).toLocaleString()}</td>
+                <td className="px-2 py-1">{coin?.symbol ?? fill.coinId}/USDT</td>
+                <td className={`px-2 py-1 font-bold uppercase ${fill.side === 'buy' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}`}>{fill.side}</td>
+                <td className="px-2 py-1 text-gray-400">{ORDER_TYPE_LABELS[fill.orderType ?? 'market']}</td>
+                <td className="px-2 py-1 text-right">{fill.price.toFixed(8)}</td>
+                <td className="px-2 py-1 text-right">{fill.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                <td className="px-4 py-1 text-right">{fill.total.toFixed(2)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TradeHistory;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Activity, Download, User } from 'lucide-react';
+import { CoinData, Fill, Tick } from '../types';
+import { buildTradeTape, downloadTextFile, tradesToCsv } from '../services/tradeTape';
+import { formatVolume } from '../services/marketStats';
+
+interface TradeTapeProps {
+  coin: CoinData;
+  ticks: Tick[]; // The coin's recent simulation ticks
+  fills: Fill[];
+}
+
+// Scrolling list of recent market trades, with the user's fills highlighted
+const TradeTape: React.FC<TradeTapeProps> = ({ coin, ticks, fills }) => {
+  const [ownOnly, setOwnOnly] = useState(false);
+  const tape = buildTradeTape(ticks, fills, coin.id);
+  const trades = ownOnly ? tape.filter(t => t.isOwn) : tape;
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadTextFile(`${coin.symbol}-trades-${stamp}.csv`, tradesToCsv(trades, coin.symbol));
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="px-3 py-2 border-b border-[#2b3139] flex items-center justify-between text-xs font-bold text-[#EAECEF]">
+        <span className="flex items-center gap-2"><Activity size={14} className="text-[#f7a600]" /> Market Trades</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setOwnOnly(!ownOnly)}
+            className={`p-1 rounded transition-colors ${ownOnly ? 'text-[#f7a600] bg-[#2b3139]' : 'text-gray-400 hover:text-[#EAECEF]'}`}
+            title="My trades only"
+          >
+            <User size={14} />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={trades.length === 0}
+            className="p-1 rounded text-gray-400 hover:text-[#EAECEF] disabled:opacity-40 transition-colors"
+            title="Export CSV"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 px-3 py-1 text-[10px] text-gray-500 uppercase">
+        <span>Price (USDT)</span>
+        <span className="text-right">Size ({coin.symbol})</span>
+        <span className="text-right">Time</span>
+      </div>
+
+      {trades.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-gray-600">
+          {ownOnly ? `No ${coin.symbol} trades of yours yet.` : 'No trades yet.'}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar min-h-0">
+          {trades.map(trade => (
+            <div
+              key={trade.id}
+              className={`grid grid-cols-3 px-3 py-0.5 text-[11px] font-mono ${trade.isOwn ? 'bg-[#f7a600]/10' : ''}`}
+              title={trade.isOwn ? 'Your fill' : undefined}
+            >
+              <span className={trade.side === 'buy' ? 'text-[#0ecb81]' : 'text-[#f6465d]'}>{trade.price.toFixed(8)}</span>
+              <span className="text-right text-[#EAECEF]">{formatVolume(trade.quantity)}</span>
+              <span className="text-right text-gray-500">{new Date(trade.time).toLocaleTimeString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TradeTape;
@@ -1,9 +1,9 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { Maximize2, Minimize2, ChevronLeft, ChevronRight, RefreshCw, Moon, Sun, Building2, Train, Wallet, Layout } from 'lucide-react';
-import { INITIAL_COINS } from '../constants';
+import { createRng } from '../services/random';
 import { CoinData, CoinId } from '../types';
 import GafferScene from './GafferScene';
 import SkyPodScene from './SkyPodScene';
@@ -30,6 +30,8 @@ const SCENE_CONFIG = {
 // 1. CryptoChart Component
 const CryptoChart = ({ className, coin }: { className?: string, coin: CoinData }) => {
     const maxPoints = 80;
+    // Seeded per coin so the HUD chart replays the same path for a given seed
+    const rng = useMemo(() => createRng(`voxel-chart:${coin.id}`), [coin.id]);
     
     // Initialize state immediately to avoid empty chart flash
     const [data, setData] = useState<number[]>(() => {
@@ -37,7 +39,7 @@ const CryptoChart = ({ className, coin }: { className?: string, coin: CoinData }
         const base = coin.basePrice;
         // Handle 0 price or very small price for initial generation
         const variance = (base === 0 ? 0.0001 : base) * 0.02; 
-        return Array.from({ length: maxPoints }, () => Math.max(0, base + (Math.random() - 0.5) * variance));
+        return Array.from({ length: maxPoints }, () => Math.max(0, base + (rng() - 0.5) * variance));
     });
     
     const [price, setPrice] = useState(coin.currentPrice);
@@ -51,19 +53,19 @@ const CryptoChart = ({ className, coin }: { className?: string, coin: CoinData }
             setPrice(0);
         } else {
             const variance = (base === 0 ? 0.0001 : base) * 0.02;
-            const initData = Array.from({ length: maxPoints }, () => Math.max(0, base + (Math.random() - 0.5) * variance));
+            const initData = Array.from({ length: maxPoints }, () => Math.max(0, base + (rng() - 0.5) * variance));
             setData(initData);
             setPrice(coin.currentPrice);
         }
-    }, [coin]);
+    }, [coin, rng]);
 
     useEffect(() => {
         const interval = setInterval(() => {
             if (coin.id === 'GAFR') {
                  setData(prev => {
                     // Occasional flicker for GAFR
-                    const shouldFlicker = Math.random() > 0.95;
-                    const val = shouldFlicker ? (Math.random() > 0.5 ? 0.01 : -0.01) : 0;
+                    const shouldFlicker = rng() > 0.95;
+                    const val = shouldFlicker ? (rng() > 0.5 ? 0.01 : -0.01) : 0;
                     return [...prev.slice(1), val];
                  });
                  setPrice(0);
@@ -71,7 +73,7 @@ const CryptoChart = ({ className, coin }: { className?: string, coin: CoinData }
                 setData(prev => {
                     const last = prev[prev.length - 1] || coin.basePrice;
                     const volatility = (coin.basePrice === 0 ? 0.0001 : coin.basePrice) * 0.005; 
-                    const change = (Math.random() - 0.5) * volatility;
+                    const change = (rng() - 0.5) * volatility;
                     let newPrice = last + change;
                     
                     const base = coin.basePrice === 0 ? 0.0001 : coin.basePrice;
@@ -89,7 +91,7 @@ const CryptoChart = ({ className, coin }: { className?: string, coin: CoinData }
             }
         }, 800);
         return () => clearInterval(interval);
-    }, [coin]);
+    }, [coin, rng]);
 
     const width = 1200;
     const height = 400;
@@ -201,6 +203,9 @@ const StandardScene = () => {
         const width = containerRef.current.clientWidth;
         const height = containerRef.current.clientHeight;
 
+        // Seeded so the same seed always lays out the same ground and trees
+        const rng = createRng('skyway');
+
         const scene = new THREE.Scene();
         scene.background = new THREE.Color(SCENE_CONFIG.backgroundColor);
         scene.fog = new THREE.Fog(SCENE_CONFIG.fogColor, SCENE_CONFIG.fogNear, SCENE_CONFIG.fogFar);
@@ -256,12 +261,12 @@ const StandardScene = () => {
         for (let x = -60; x <= 60; x++) {
             for (let z = -40; z <= 20; z++) {
                 if (z >= roadCenterZ - roadWidth - 1 && z <= roadCenterZ + roadWidth + 1) continue;
-                const r = Math.random();
+                const r = rng();
                 let col = PALETTE.grass1;
                 if (r > 0.6) col = PALETTE.grass2;
                 if (r > 0.9) col = PALETTE.grass3;
-                const yOff = Math.random() * 0.2;
-                if (Math.abs(x) < 40 || Math.random() > 0.5) staticVoxels.push({ x: x, y: -2 + yOff, z: z, color: col });
+                const yOff = rng() * 0.2;
+                if (Math.abs(x) < 40 || rng() > 0.5) staticVoxels.push({ x: x, y: -2 + yOff, z: z, color: col });
             }
             for (let z = roadCenterZ - roadWidth; z <= roadCenterZ + roadWidth; z++) {
                 let col = PALETTE.roadAsphalt;
@@ -367,16 +372,16 @@ const StandardScene = () => {
         scene.add(treesContainer);
         const createTree = (x: number, z: number) => {
             const treeGroup = new THREE.Group();
-            const h = 4 + Math.random() * 4;
+            const h = 4 + rng() * 4;
             for(let y=0; y<h; y++) createVoxelForGroup(PALETTE.wood, 0, y-2, 0, treeGroup);
-            const leaveColor = (Math.random()>0.5) ? PALETTE.leaf1 : PALETTE.leaf2;
+            const leaveColor = (rng()>0.5) ? PALETTE.leaf1 : PALETTE.leaf2;
             for(let lx=-2; lx<=2; lx++) for(let ly=0; ly<=3; ly++) for(let lz=-2; lz<=2; lz++) {
                 if (Math.abs(lx)+Math.abs(ly)+Math.abs(lz) < 4) createVoxelForGroup(leaveColor, lx, h+ly-3, lz, treeGroup);
             }
             treeGroup.position.set(x, 0, z);
             treesContainer.add(treeGroup);
         };
-        for(let i=0; i<15; i++) createTree(-40 + Math.random()*80, -10 - Math.random()*20);
+        for(let i=0; i<15; i++) createTree(-40 + rng()*80, -10 - rng()*20);
 
         // Animation
         const clock = new THREE.Clock();
@@ -415,7 +420,11 @@ const StandardScene = () => {
 };
 
 // 3. Main VoxelTrade Component
-const VoxelTrade = () => {
+interface VoxelTradeProps {
+    coins: CoinData[]; // Listed coins, in market order
+}
+
+const VoxelTrade: React.FC<VoxelTradeProps> = ({ coins }) => {
     const [selectedCoinId, setSelectedCoinId] = useState<CoinId>('USTC');
     const [uiVisible, setUiVisible] = useState(true);
     const [isCoinMenuOpen, setIsCoinMenuOpen] = useState(false);
@@ -424,14 +433,15 @@ const VoxelTrade = () => {
     const [ustcVariant, setUstcVariant] = useState<'standard' | 'exotic' | 'neovoxel' | 'neocity'>('standard');
     const [isNightVision, setIsNightVision] = useState(false);
 
-    const activeCoin = INITIAL_COINS.find(c => c.id === selectedCoinId) || INITIAL_COINS[0];
+    // Falls back to the first coin when the selected one is delisted
+    const activeCoin = coins.find(c => c.id === selectedCoinId) || coins[0];
 
     const cycleCoin = (direction: 'next' | 'prev') => {
-        const idx = INITIAL_COINS.findIndex(c => c.id === selectedCoinId);
+        const idx = coins.findIndex(c => c.id === activeCoin.id);
         let newIdx = direction === 'next' ? idx + 1 : idx - 1;
-        if (newIdx >= INITIAL_COINS.length) newIdx = 0;
-        if (newIdx < 0) newIdx = INITIAL_COINS.length - 1;
-        setSelectedCoinId(INITIAL_COINS[newIdx].id);
+        if (newIdx >= coins.length) newIdx = 0;
+        if (newIdx < 0) newIdx = coins.length - 1;
+        setSelectedCoinId(coins[newIdx].id);
     };
 
     const toggleUstcVariant = () => {
@@ -446,9 +456,9 @@ const VoxelTrade = () => {
             
             {/* 3D Scene Layer */}
             <div className="absolute inset-0 z-0">
-                {selectedCoinId === 'GAFR' ? (
+                {activeCoin.id === 'GAFR' ? (
                     <GafferScene />
-                ) : selectedCoinId === 'USTC' ? (
+                ) : activeCoin.id === 'USTC' ? (
                     ustcVariant === 'standard' ? <StandardScene /> : 
                     ustcVariant === 'exotic' ? <SkyPodScene isNightVision={isNightVision} /> :
                     ustcVariant === 'neovoxel' ? <MetropolisScene /> :
@@ -474,15 +484,15 @@ const VoxelTrade = () => {
                     
                     {isCoinMenuOpen && (
                         <div className="absolute top-full right-0 mt-2 w-48 bg-[#1e2329]/95 backdrop-blur-xl border border-[#2b3139] rounded-xl overflow-hidden shadow-2xl z-50 flex flex-col">
-                            {INITIAL_COINS.map(coin => (
+                            {coins.map(coin => (
                                 <button
                                     key={coin.id}
                                     onClick={() => { setSelectedCoinId(coin.id); setIsCoinMenuOpen(false); }}
-                                    className={`flex items-center gap-3 px-4 py-3 hover:bg-white/5 transition-colors text-left border-l-4 ${selectedCoinId === coin.id ? 'border-l-[#f7a600] bg-white/5' : 'border-l-transparent'}`}
+                                    className={`flex items-center gap-3 px-4 py-3 hover:bg-white/5 transition-colors text-left border-l-4 ${activeCoin.id === coin.id ? 'border-l-[#f7a600] bg-white/5' : 'border-l-transparent'}`}
                                 >
                                     <div className="w-2 h-2 rounded-full" style={{ backgroundColor: coin.color }} />
                                     <div className="flex flex-col">
-                                        <span className={`text-sm font-bold ${selectedCoinId === coin.id ? 'text-white' : 'text-gray-300'}`}>{coin.symbol}</span>
+                                        <span className={`text-sm font-bold ${activeCoin.id === coin.id ? 'text-white' : 'text-gray-300'}`}>{coin.symbol}</span>
                                         <span className="text-[10px] text-gray-500 uppercase">{coin.name}</span>
                                     </div>
                                 </button>
@@ -492,7 +502,7 @@ const VoxelTrade = () => {
                 </div>
 
                 {/* USTC Specific Controls */}
-                {selectedCoinId === 'USTC' && (
+                {activeCoin.id === 'USTC' && (
                     <>
                         <button 
                             onClick={toggleUstcVariant}
@@ -544,13 +554,13 @@ const VoxelTrade = () => {
                             </button>
                             
                             <div className="flex gap-2 overflow-x-auto max-w-xl px-4 no-scrollbar">
-                                {INITIAL_COINS.map(c => (
+                                {coins.map(c => (
                                     <button
                                         key={c.id}
                                         onClick={() => setSelectedCoinId(c.id)}
                                         className={`
                                             flex items-center gap-2 px-4 py-2 rounded-full border transition-all whitespace-nowrap
-                                            ${selectedCoinId === c.id 
+                                            ${activeCoin.id === c.id 
                                                 ? 'bg-white/10 border-white/50 text-white shadow-[0_0_15px_rgba(255,255,255,0.2)]' 
                                                 : 'bg-transparent border-white/10 text-gray-500 hover:border-white/30 hover:text-gray-300'}
                                         `}
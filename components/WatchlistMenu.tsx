@@ -0,0 +1,55 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Star } from 'lucide-react';
+import { Watchlist } from '../types';
+
+interface WatchlistMenuProps {
+  coinId: string;
+  watchlists: Watchlist[];
+  onToggle: (watchlistId: string) => void;
+}
+
+// Star button that adds a market to, or removes it from, any watchlist
+const WatchlistMenu: React.FC<WatchlistMenuProps> = ({ coinId, watchlists, onToggle }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isWatched = watchlists.some(w => w.coinIds.includes(coinId));
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative inline-flex" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`transition-colors ${isWatched ? 'text-[#f7a600]' : 'text-gray-600 hover:text-gray-400'}`}
+        title="Add to watchlist"
+      >
+        <Star size={14} fill={isWatched ? 'currentColor' : 'none'} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-30 w-44 bg-[#1e2329] border border-[#2b3139] rounded-lg shadow-xl py-1 text-xs font-normal">
+          {watchlists.map(watchlist => (
+            <button
+              key={watchlist.id}
+              onClick={() => onToggle(watchlist.id)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-[#EAECEF] hover:bg-[#2b3139] transition-colors"
+            >
+              <span className="w-3">{watchlist.coinIds.includes(coinId) && <Check size={12} className="text-[#f7a600]" />}</span>
+              <span className="truncate">{watchlist.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistMenu;
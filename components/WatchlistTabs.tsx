@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Plus, Star, X } from 'lucide-react';
+import { Watchlist } from '../types';
+import { FAVORITES_ID } from '../services/markets';
+
+interface WatchlistTabsProps {
+  watchlists: Watchlist[];
+  activeId: string | null; // null shows all markets
+  onSelect: (watchlistId: string | null) => void;
+  onCreate: (name: string) => { ok: true } | { ok: false; error: string };
+  onDelete: (watchlistId: string) => void;
+}
+
+// All markets, Favorites and the user's named watchlists, plus a field to add one
+const WatchlistTabs: React.FC<WatchlistTabsProps> = ({ watchlists, activeId, onSelect, onCreate, onDelete }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    const result = onCreate(name);
+    if (result.ok === false) {
+      setError(result.error);
+      return;
+    }
+    setName('');
+    setError(null);
+    setIsAdding(false);
+  };
+
+  const tabClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded text-xs font-bold flex items-center gap-1.5 border whitespace-nowrap transition-colors ${isActive ? 'border-[#f7a600] text-[#f7a600]' : 'border-[#2b3139] text-gray-400 hover:text-[#EAECEF]'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button onClick={() => onSelect(null)} className={tabClass(activeId === null)}>All Markets</button>
+      {watchlists.map(watchlist => (
+        <div key={watchlist.id} className={tabClass(activeId === watchlist.id)}>
+          <button onClick={() => onSelect(watchlist.id)} className="flex items-center gap-1.5">
+            {watchlist.id === FAVORITES_ID && <Star size={12} fill={activeId === watchlist.id ? 'currentColor' : 'none'} />}
+            {watchlist.name}
+            <span className="font-normal text-gray-500">{watchlist.coinIds.length}</span>
+          </button>
+          {watchlist.id !== FAVORITES_ID && activeId === watchlist.id && (
+            <button
+              onClick={() => { if (window.confirm(`Delete the ${watchlist.name} watchlist?`)) onDelete(watchlist.id); }}
+              className="text-gray-500 hover:text-[#f6465d] transition-colors"
+              title="Delete watchlist"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+      {isAdding ? (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            autoFocus
+            value={name}
+            onChange={(e) => { setName(e.target.value); setError(null); }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setIsAdding(false);
+            }}
+            placeholder="Watchlist name"
+            className="w-36 bg-[#1e2329] border border-[#2b3139] rounded px-2 py-1.5 text-xs text-[#EAECEF] outline-none focus:border-[#f7a600]"
+          />
+          <button onClick={handleCreate} disabled={!name.trim()} className="px-2 py-1.5 bg-[#f7a600] hover:bg-[#d97706] disabled:opacity-50 disabled:cursor-not-allowed text-black rounded transition-colors" title="Add watchlist">
+            <Plus size={12} />
+          </button>
+          {error && <span className="text-[10px] text-[#f6465d]">{error}</span>}
+        </div>
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="px-2 py-1.5 rounded text-xs text-gray-500 hover:text-[#EAECEF] flex items-center gap-1 transition-colors">
+          <Plus size={12} /> New List
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistTabs;
@@ -1,9 +1,34 @@
 
 
-import { CoinData, NewsItem } from './types';
+import { CoinData, NewsItem, Wallet } from './types';
+import { DEFAULT_MODEL_PARAMS } from './services/priceModels';
+import { createRng } from './services/random';
 
 export const MAX_HISTORY_POINTS = 60; // Increased for smoother charts
 export const SIMULATION_INTERVAL = 1500; // Slightly faster ticks
+export const PERSIST_INTERVAL = 5000; // How often market state is saved locally
+export const EQUITY_SNAPSHOT_INTERVAL = 60 * 1000; // How often portfolio value is recorded for analytics
+export const ALERT_TOAST_DURATION = 8000; // How long a fired price alert stays on screen
+export const DEFAULT_TICK_LIQUIDITY = 500; // USDT traded per tick when a coin sets no liquidity
+export const INITIAL_CASH = 10000; // Paper-trading USDT balance for a new ledger
+
+// How many raw ticks / candles the history store keeps per coin
+export const HISTORY_RETENTION = {
+  ticks: 600, // ~15 minutes of raw ticks
+  '1m': 1440, // 24 hours
+  '5m': 2016, // 7 days
+  '1h': 720, // 30 days
+  '1d': 365, // 1 year
+};
+
+// Admin access: SHA-256 hex of the passphrase. Set your own; see the README.
+export const ADMIN_PASSPHRASE_HASH = '2c3bd5fad53019f16d68ba33dac2072b9a8dbf5db1af0642f86fb958b0ba90fc';
+export const ADMIN_SESSION_TTL = 30 * 60 * 1000; // 30 minutes
+export const ADMIN_MAX_ATTEMPTS = 5; // Failed attempts before lockout
+export const ADMIN_LOCKOUT_DURATION = 5 * 60 * 1000; // 5 minutes
+
+// Seeded so a given ?seed= always produces the same starting charts
+const historyRng = createRng('history');
 
 // Helper to generate mock history so charts aren't empty on load
 const generateMockHistory = (basePrice: number) => {
@@ -12,7 +37,7 @@ const generateMockHistory = (basePrice: number) => {
   for (let i = MAX_HISTORY_POINTS; i > 0; i--) {
     const time = new Date(now - i * SIMULATION_INTERVAL).toLocaleTimeString();
     // Simulate some variance for history, unless price is 0
-    const variance = basePrice === 0 ? 0 : (Math.random() * 0.04 - 0.02); // +/- 2%
+    const variance = basePrice === 0 ? 0 : (historyRng() * 0.04 - 0.02); // +/- 2%
     const value = Math.max(0, basePrice * (1 + variance));
     history.push({ time, value });
   }
@@ -25,69 +50,89 @@ export const INITIAL_COINS: CoinData[] = [
     name: 'SkyWay Shares',
     symbol: 'USTC',
     description: 'Investment shares in RSW Systems.',
-    balance: 2694803,
     basePrice: 0.010,
     currentPrice: 0.010,
     history: generateMockHistory(0.010),
     color: '#10b981', // Emerald
+    model: { ...DEFAULT_MODEL_PARAMS.ou, volatility: 0.004, meanReversion: 0.05 },
+    display: { badge: 'Shares', avatar: 'RSW', infoRows: [{ label: 'Issuer', value: 'RSW Systems' }] },
+    settlement: { kind: 'referral', label: 'Buy Shares', icon: 'external-link', color: '#0ecb81', url: 'https://rsw-systems.com/?r=101716', widget: 'podway-launch' },
   },
   {
     id: 'INSb',
     name: 'INSbit Token',
     symbol: 'INSb',
     description: 'Official exchange utility token.',
-    balance: 1099999799,
     basePrice: 0.000001,
     currentPrice: 0.000001,
     history: generateMockHistory(0.000001),
     color: '#3b82f6', // Blue
+    model: { ...DEFAULT_MODEL_PARAMS.jump, volatility: 0.006, jumpProbability: 0.03, jumpSize: 0.08 },
+    display: { badge: 'Token', avatar: 'INSb' },
+    settlement: { kind: 'simulated', label: 'Buy INSb', icon: 'trending-up', color: '#3b82f6', caption: 'Instant Paper Trading' },
   },
   {
     id: 'HOT',
     name: 'Holo Fuel',
     symbol: 'HOT',
     description: 'Decentralized hosting fuel.',
-    balance: 500,
     basePrice: 1.0,
     currentPrice: 1.0,
     history: generateMockHistory(1.0),
     color: '#f97316', // Orange
+    model: { ...DEFAULT_MODEL_PARAMS.ou, volatility: 0.002, meanReversion: 0.1 },
+    display: { badge: 'Utility', avatar: 'HOT', watermark: 'database', muted: true },
+    settlement: { kind: 'mining', label: 'Start Mining HOT', icon: 'hammer', color: '#f97316', url: 'https://app.hot-labs.org/link?624146uu', caption: 'Mined via HOT Labs' },
   },
   {
     id: 'KEEP',
     name: 'Храни Token',
     symbol: 'KEEP',
     description: 'Secure decentralized storage.',
-    balance: 1000000000,
     basePrice: 0.0000010,
     currentPrice: 0.0000010,
     history: generateMockHistory(0.0000010),
     color: '#a855f7', // Purple
+    model: { ...DEFAULT_MODEL_PARAMS.regime },
+    display: { badge: 'Храни', avatar: 'KEEP', infoRows: [{ label: 'Service', value: 'keepfiles.ru' }] },
+    settlement: { kind: 'referral', label: 'Buy KEEP', icon: 'shield', color: '#a855f7', url: 'https://keepfiles.ru', caption: 'Direct Server Access' },
   },
   {
     id: 'RBTC',
     name: 'RabBitcoin',
     symbol: 'RBTC',
     description: 'Rabbit-themed Bitcoin token.',
-    balance: 1961965,
     basePrice: 0.0000014,
     currentPrice: 0.0000014,
     history: generateMockHistory(0.0000014),
     color: '#ec4899', // Pink
+    model: { ...DEFAULT_MODEL_PARAMS.jump, volatility: 0.008 },
+    display: { badge: 'Rabbit', avatar: 'RBTC' },
+    settlement: { kind: 'telegram', label: 'Buy RBTC (Telegram)', icon: 'rabbit', color: '#ec4899', botHandle: 'Insbitg', locale: 'ru', caption: 'Secure Telegram Gateway' },
   },
   {
     id: 'GAFR',
     name: 'Gaffer Studio',
     symbol: 'GAFR',
     description: 'Voxel Art Studio Token',
-    balance: 0,
     basePrice: 0,
     currentPrice: 0,
     history: generateMockHistory(0),
     color: '#00B2B2', // Teal
+    model: { ...DEFAULT_MODEL_PARAMS.gbm },
+    display: { badge: 'Voxel', avatar: 'GAFR', watermark: 'box', infoRows: [{ label: 'Status', value: 'Pre-listing' }] },
   },
 ];
 
+// Holdings of the default profile's wallet; new profiles start with cash only
+export const INITIAL_WALLET: Wallet = {
+  USTC: 2694803,
+  INSb: 1099999799,
+  HOT: 500,
+  KEEP: 1000000000,
+  RBTC: 1961965,
+};
+
 export const MOCK_NEWS: NewsItem[] = [
   {
     id: '9',
@@ -0,0 +1,74 @@
+import { ADMIN_LOCKOUT_DURATION, ADMIN_MAX_ATTEMPTS, ADMIN_PASSPHRASE_HASH, ADMIN_SESSION_TTL } from '../constants';
+
+// Local-only gate for the admin panel. This keeps casual visitors out of the
+// market controls; it is not a substitute for server-side authentication.
+
+const SESSION_KEY = 'instaitex.admin.session';
+const LOCKOUT_KEY = 'instaitex.admin.lockout';
+
+interface LockoutState {
+  failures: number;
+  lockedUntil: number;
+}
+
+export type LoginResult =
+  | { ok: true; expiresAt: number }
+  | { ok: false; error: string };
+
+const readLockout = (): LockoutState => {
+  try {
+    const raw = localStorage.getItem(LOCKOUT_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch {
+    // Corrupt entry: start over
+  }
+  return { failures: 0, lockedUntil: 0 };
+};
+
+const writeLockout = (state: LockoutState) => {
+  localStorage.setItem(LOCKOUT_KEY, JSON.stringify(state));
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Milliseconds left on the current lockout, 0 when logins are allowed
+export const getLockoutRemaining = () => Math.max(0, readLockout().lockedUntil - Date.now());
+
+// Expiry timestamp of the active session, or null when logged out / expired
+export const getSessionExpiry = (): number | null => {
+  const expiresAt = Number(sessionStorage.getItem(SESSION_KEY));
+  if (!expiresAt || expiresAt <= Date.now()) {
+    sessionStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+  return expiresAt;
+};
+
+export const login = async (passphrase: string): Promise<LoginResult> => {
+  const remaining = getLockoutRemaining();
+  if (remaining > 0) {
+    return { ok: false, error: `Too many failed attempts. Try again in ${Math.ceil(remaining / 1000)}s.` };
+  }
+
+  if ((await sha256Hex(passphrase)) === ADMIN_PASSPHRASE_HASH) {
+    writeLockout({ failures: 0, lockedUntil: 0 });
+    const expiresAt = Date.now() + ADMIN_SESSION_TTL;
+    sessionStorage.setItem(SESSION_KEY, String(expiresAt));
+    return { ok: true, expiresAt };
+  }
+
+  const failures = readLockout().failures + 1;
+  if (failures >= ADMIN_MAX_ATTEMPTS) {
+    writeLockout({ failures: 0, lockedUntil: Date.now() + ADMIN_LOCKOUT_DURATION });
+    return { ok: false, error: `Too many failed attempts. Locked for ${Math.round(ADMIN_LOCKOUT_DURATION / 60000)} minutes.` };
+  }
+  writeLockout({ failures, lockedUntil: 0 });
+  return { ok: false, error: `Wrong passphrase. ${ADMIN_MAX_ATTEMPTS - failures} attempt(s) left.` };
+};
+
+export const logout = () => {
+  sessionStorage.removeItem(SESSION_KEY);
+};
@@ -0,0 +1,196 @@
+import { AlertCondition, AlertEvent, CoinData, CoinHistory, CoinId, MarketHistory, NewsItem, PriceAlert } from '../types';
+import { createId } from './ids';
+import { isListed } from './listings';
+
+// User price alerts, checked against every simulation tick. Alerts and the
+// history of fired ones are kept in localStorage; an alert switches off once
+// it fires and can be re-enabled from the trade view.
+
+const ALERTS_KEY = 'instaitex.alerts';
+const HISTORY_KEY = 'instaitex.alerts.history';
+const NOTIFY_KEY = 'instaitex.alerts.notify';
+
+const MAX_HISTORY = 100;
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'Price above',
+  below: 'Price below',
+  move: 'Moves by',
+  news: 'News published',
+};
+
+// Look-back options for move alerts, in minutes. 1m candles cover 24 hours.
+export const ALERT_WINDOWS = [5, 15, 60, 240, 1440];
+
+export interface AlertDraft {
+  coinId: CoinId;
+  condition: AlertCondition;
+  threshold: number;
+  windowMinutes: number;
+}
+
+export interface AlertCheck {
+  alerts: PriceAlert[];
+  events: AlertEvent[];
+}
+
+export const loadAlerts = (): PriceAlert[] => {
+  try {
+    const raw = localStorage.getItem(ALERTS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlerts = (alerts: PriceAlert[]) => {
+  try {
+    localStorage.setItem(ALERTS_KEY, JSON.stringify(alerts));
+  } catch (error) {
+    console.warn('Failed to save alerts', error);
+  }
+};
+
+export const loadAlertHistory = (): AlertEvent[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Keeps the most recent events
+export const capAlertHistory = (history: AlertEvent[]) => history.slice(-MAX_HISTORY);
+
+// Appends to the stored history, keeping the most recent events
+export const appendAlertHistory = (events: AlertEvent[]): AlertEvent[] => {
+  const history = capAlertHistory([...loadAlertHistory(), ...events]);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn('Failed to save alert history', error);
+  }
+  return history;
+};
+
+export const clearAlertHistory = () => {
+  localStorage.removeItem(HISTORY_KEY);
+};
+
+export const formatAlertPrice = (coin: CoinData, price: number) => `$${price.toFixed(coin.basePrice < 1 ? 6 : 4)}`;
+
+export const formatAlertWindow = (minutes: number) =>
+  minutes >= 1440 ? `${minutes / 1440}d` : minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`;
+
+export const describeAlert = (alert: PriceAlert, coin: CoinData) => {
+  switch (alert.condition) {
+    case 'above': return `Above ${formatAlertPrice(coin, alert.threshold!)}`;
+    case 'below': return `Below ${formatAlertPrice(coin, alert.threshold!)}`;
+    case 'move': return `±${alert.threshold}% within ${formatAlertWindow(alert.windowMinutes!)}`;
+    case 'news': return 'Any new article';
+  }
+};
+
+const getCoinNewsIds = (news: NewsItem[], coinId: CoinId) => news.filter(n => n.relatedCoinId === coinId).map(n => n.id);
+
+export const validateAlert = (draft: AlertDraft, coin: CoinData): string | null => {
+  if (draft.condition === 'news') return null;
+  if (!Number.isFinite(draft.threshold) || draft.threshold <= 0) {
+    return draft.condition === 'move' ? 'Enter a percentage above zero.' : 'Enter a price above zero.';
+  }
+  if (draft.condition === 'above' && coin.currentPrice >= draft.threshold) return `${coin.symbol} is already above that price.`;
+  if (draft.condition === 'below' && coin.currentPrice <= draft.threshold) return `${coin.symbol} is already below that price.`;
+  return null;
+};
+
+// Articles already published for the coin don't trigger a news alert
+export const createAlert = (draft: AlertDraft, news: NewsItem[], now = Date.now()): PriceAlert => ({
+  id: createId('alr'),
+  coinId: draft.coinId,
+  condition: draft.condition,
+  threshold: draft.condition !== 'news' ? draft.threshold : undefined,
+  windowMinutes: draft.condition === 'move' ? draft.windowMinutes : undefined,
+  seenNewsIds: draft.condition === 'news' ? getCoinNewsIds(news, draft.coinId) : undefined,
+  active: true,
+  createdAt: now,
+  armedAt: now,
+});
+
+// Switches an alert off, or back on from the current moment
+export const toggleAlert = (alerts: PriceAlert[], id: string, now = Date.now()): PriceAlert[] =>
+  alerts.map(a => (a.id !== id ? a : a.active ? { ...a, active: false } : { ...a, active: true, armedAt: now, firedAt: undefined }));
+
+// Price at the start of the window: the last raw tick before it, or the open
+// of the first 1m candle overlapping it once the ticks don't reach that far
+// back. The window never starts before the alert was armed.
+const getWindowOpen = (alert: PriceAlert, coin: CoinData, history: CoinHistory | undefined, now: number) => {
+  const since = Math.max(now - alert.windowMinutes! * 60 * 1000, alert.armedAt);
+  const tick = history?.ticks.filter(t => t.time <= since).pop();
+  if (tick) return tick.price;
+  const candle = history?.candles['1m'].find(c => c.time + 60 * 1000 > since);
+  return candle ? candle.open : coin.currentPrice;
+};
+
+// What fired, and the news item for news alerts
+const checkAlert = (alert: PriceAlert, coin: CoinData, history: CoinHistory | undefined, news: NewsItem[], now: number): { message: string; newsId?: string } | null => {
+  const price = coin.currentPrice;
+  switch (alert.condition) {
+    case 'above':
+      return price >= alert.threshold! ? { message: `${coin.symbol} rose above ${formatAlertPrice(coin, alert.threshold!)}` } : null;
+    case 'below':
+      return price <= alert.threshold! ? { message: `${coin.symbol} fell below ${formatAlertPrice(coin, alert.threshold!)}` } : null;
+    case 'move': {
+      const open = getWindowOpen(alert, coin, history, now);
+      if (open <= 0) return null;
+      const percent = ((price - open) / open) * 100;
+      if (Math.abs(percent) < alert.threshold!) return null;
+      return { message: `${coin.symbol} ${percent >= 0 ? 'rose' : 'fell'} ${Math.abs(percent).toFixed(2)}% within ${formatAlertWindow(alert.windowMinutes!)}` };
+    }
+    case 'news': {
+      const item = news.find(n => n.relatedCoinId === coin.id && !(alert.seenNewsIds ?? []).includes(n.id));
+      return item ? { message: `News for ${coin.symbol}: ${item.title}`, newsId: item.id } : null;
+    }
+  }
+};
+
+// Checks every active alert against the latest prices and news. Returns null
+// when nothing fired.
+export const evaluateAlerts = (alerts: PriceAlert[], coins: CoinData[], market: MarketHistory, news: NewsItem[], now: number): AlertCheck | null => {
+  const events: AlertEvent[] = [];
+  const next = alerts.map(alert => {
+    if (!alert.active) return alert;
+    const coin = coins.find(c => c.id === alert.coinId);
+    if (!coin || !isListed(coin)) return alert;
+    const fired = checkAlert(alert, coin, market[coin.id], news, now);
+    if (!fired) return alert;
+    events.push({ id: createId('alrt'), alertId: alert.id, coinId: coin.id, time: now, price: coin.currentPrice, message: fired.message });
+    const seenNewsIds = fired.newsId ? [...(alert.seenNewsIds ?? []), fired.newsId] : alert.seenNewsIds;
+    return { ...alert, active: false, firedAt: now, seenNewsIds };
+  });
+  return events.length > 0 ? { alerts: next, events } : null;
+};
+
+export const isNotificationSupported = () => typeof Notification !== 'undefined';
+
+// Browser popups are opt-in, and only count as on while permission holds
+export const loadNotificationsEnabled = () =>
+  isNotificationSupported() && Notification.permission === 'granted' && localStorage.getItem(NOTIFY_KEY) === 'true';
+
+// Asks for permission if needed; resolves to whether popups are now on
+export const setNotificationsEnabled = async (enabled: boolean): Promise<boolean> => {
+  let granted = false;
+  if (enabled && isNotificationSupported()) {
+    granted = Notification.permission === 'granted' || (await Notification.requestPermission()) === 'granted';
+  }
+  localStorage.setItem(NOTIFY_KEY, String(granted));
+  return granted;
+};
+
+export const showAlertNotification = (event: AlertEvent, coin: CoinData) => {
+  try {
+    new Notification(`${coin.symbol} alert`, { body: event.message, tag: event.alertId });
+  } catch (error) {
+    console.warn('Failed to show notification', error);
+  }
+};
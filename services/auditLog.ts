@@ -0,0 +1,74 @@
+import { AuditEntry, AuditField, CoinData } from '../types';
+import { createId } from './ids';
+
+// Append-only record of admin market interventions, kept in localStorage.
+// There is deliberately no way to edit or remove entries.
+
+const LOG_KEY = 'instaitex.audit.log';
+const PUBLIC_KEY = 'instaitex.audit.public';
+
+export const loadAuditLog = (): AuditEntry[] => {
+  try {
+    const raw = localStorage.getItem(LOG_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Appends to the stored log and returns the full, updated log
+export const appendAuditEntries = (entries: AuditEntry[]): AuditEntry[] => {
+  const log = [...loadAuditLog(), ...entries];
+  localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  return log;
+};
+
+// An entry for the base price if `updates` actually changes it on `coin`
+export const createAuditEntries = (coin: CoinData, updates: Partial<CoinData>, reason?: string): AuditEntry[] =>
+  updates.basePrice !== undefined && updates.basePrice !== coin.basePrice
+    ? [{
+      id: createId('aud'),
+      timestamp: Date.now(),
+      coinId: coin.id,
+      field: 'basePrice',
+      previousValue: coin.basePrice,
+      newValue: updates.basePrice,
+      reason,
+      source: 'manual',
+    }]
+    : [];
+
+// An entry for a change to one profile's balance of `coin`
+export const createBalanceAuditEntries = (coin: CoinData, profileId: string, previousValue: number, newValue: number, reason?: string): AuditEntry[] =>
+  previousValue !== newValue
+    ? [{
+      id: createId('aud'),
+      timestamp: Date.now(),
+      coinId: coin.id,
+      field: 'balance',
+      previousValue,
+      newValue,
+      reason,
+      source: 'manual',
+      profileId,
+    }]
+    : [];
+
+// Whether the log is shown to everyone as a "Market Interventions" feed
+export const isAuditLogPublic = () => localStorage.getItem(PUBLIC_KEY) === 'true';
+
+export const setAuditLogPublic = (isPublic: boolean) => {
+  localStorage.setItem(PUBLIC_KEY, String(isPublic));
+};
+
+export const AUDIT_FIELD_LABELS: Record<AuditField, string> = {
+  balance: 'Balance',
+  basePrice: 'Base Price',
+};
+
+export const formatAuditValue = (entry: AuditEntry, value: number) =>
+  entry.field === 'basePrice' ? `$${value.toFixed(8)}` : value.toLocaleString();
+
+// Relative change of an entry, or null when it started from zero
+export const getAuditChangePercent = (entry: AuditEntry) =>
+  entry.previousValue !== 0 ? ((entry.newValue - entry.previousValue) / entry.previousValue) * 100 : null;
@@ -0,0 +1,59 @@
+import { Candle, ChartMode, Tick } from '../types';
+
+// Transforms from recorded history into the series the detailed chart draws.
+
+export const CHART_MODE_LABELS: Record<ChartMode, string> = {
+  area: 'Area',
+  line: 'Line',
+  candles: 'Candles',
+  ohlc: 'OHLC Bars',
+  'heikin-ashi': 'Heikin-Ashi',
+};
+
+export const LIVE_CANDLE_MS = 15 * 1000; // Bucket size for candles built from raw ticks
+
+// Groups raw ticks into candles of `bucketMs`, used for the live view
+export const aggregateTicks = (ticks: Tick[], bucketMs = LIVE_CANDLE_MS): Candle[] => {
+  const candles: Candle[] = [];
+  ticks.forEach(tick => {
+    const start = Math.floor(tick.time / bucketMs) * bucketMs;
+    const last = candles[candles.length - 1];
+    if (last && last.time === start) {
+      last.high = Math.max(last.high, tick.price);
+      last.low = Math.min(last.low, tick.price);
+      last.close = tick.price;
+      last.volume += tick.volume;
+      last.quoteVolume += tick.price * tick.volume;
+    } else {
+      candles.push({
+        time: start,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: tick.volume,
+        quoteVolume: tick.price * tick.volume,
+      });
+    }
+  });
+  return candles;
+};
+
+// Heikin-Ashi smoothing: each candle opens at the midpoint of the previous
+// smoothed body and closes at the average of its own OHLC
+export const toHeikinAshi = (candles: Candle[]): Candle[] => {
+  const result: Candle[] = [];
+  candles.forEach((candle, i) => {
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const previous = result[i - 1];
+    const open = previous ? (previous.open + previous.close) / 2 : (candle.open + candle.close) / 2;
+    result.push({
+      ...candle,
+      open,
+      close,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close),
+    });
+  });
+  return result;
+};
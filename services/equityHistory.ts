@@ -0,0 +1,284 @@
+import { AuditEntry, CoinData, EquityRange, EquitySnapshot, Ledger } from '../types';
+import { getBalance, getTotalAssets } from './ledger';
+import { getProfileKey } from './profiles';
+import { EQUITY_RANGES } from './portfolio';
+
+// Periodic snapshots of total equity and per-coin value, kept in localStorage,
+// and the risk analytics computed from them. Recent snapshots are kept at full
+// resolution and older ones thinned out, so a year of history stays small.
+
+const SNAPSHOTS_KEY = 'instaitex.equity.snapshots';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Snapshots younger than `age` are kept one per `bucket` (0 keeps them all)
+const RETENTION_TIERS = [
+  { age: DAY_MS, bucket: 0 },
+  { age: 30 * DAY_MS, bucket: HOUR_MS },
+  { age: 365 * DAY_MS, bucket: DAY_MS },
+];
+
+export interface DrawdownStats {
+  percent: number; // Negative, e.g. -99 for a 99% fall from the peak
+  amount: number;
+  peakTime: number;
+  troughTime: number;
+  recoveredTime: number | null;
+}
+
+export interface DayReturn {
+  day: number; // Local midnight
+  change: number;
+  percent: number;
+}
+
+export interface CoinContribution {
+  coinId: string;
+  contribution: number; // P&L from price moves while the coin was held
+  startValue: number;
+  endValue: number;
+}
+
+// Estimated effect of an audited base-price change on the holder
+export interface RepricingImpact {
+  entry: AuditEntry;
+  balance: number;
+  impact: number;
+  equityPercent: number;
+}
+
+export interface AnalyticsPoint {
+  time: number;
+  equity: number;
+  drawdown: number; // Percent below the running peak
+  values: Record<string, number>;
+}
+
+export interface EquityAnalytics {
+  series: AnalyticsPoint[];
+  startEquity: number;
+  endEquity: number;
+  change: number;
+  changePercent: number;
+  maxDrawdown: DrawdownStats | null;
+  dailyVolatility: number | null; // Percent
+  annualizedVolatility: number | null;
+  days: DayReturn[];
+  bestDay: DayReturn | null;
+  worstDay: DayReturn | null;
+  contributions: CoinContribution[];
+  flows: number; // Change not explained by price moves: trading costs, balance edits, fills
+  repricings: RepricingImpact[];
+}
+
+export const loadEquitySnapshots = (profileId: string): EquitySnapshot[] => {
+  try {
+    const raw = localStorage.getItem(getProfileKey(SNAPSHOTS_KEY, profileId));
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveEquitySnapshots = (snapshots: EquitySnapshot[], profileId: string) => {
+  try {
+    localStorage.setItem(getProfileKey(SNAPSHOTS_KEY, profileId), JSON.stringify(snapshots));
+  } catch (error) {
+    console.warn('Failed to save equity snapshots', error);
+  }
+};
+
+export const clearEquitySnapshots = (profileId: string) => {
+  localStorage.removeItem(getProfileKey(SNAPSHOTS_KEY, profileId));
+};
+
+export const takeEquitySnapshot = (coins: CoinData[], ledger: Ledger, now = Date.now()): EquitySnapshot => {
+  const holdings: EquitySnapshot['holdings'] = {};
+  coins.forEach(coin => {
+    const balance = getBalance(ledger, coin.id);
+    if (balance > 0) holdings[coin.id] = { balance, price: coin.currentPrice };
+  });
+  return { time: now, cash: ledger.cash, equity: getTotalAssets(ledger, coins), holdings };
+};
+
+// Appends a snapshot and thins out older ones to their tier's resolution,
+// keeping the first snapshot of each bucket
+export const appendEquitySnapshot = (snapshots: EquitySnapshot[], snapshot: EquitySnapshot): EquitySnapshot[] => {
+  const seen = new Set<string>();
+  return [...snapshots, snapshot].filter(s => {
+    const age = snapshot.time - s.time;
+    const tier = RETENTION_TIERS.findIndex(t => age < t.age);
+    if (tier === -1) return false;
+    const { bucket } = RETENTION_TIERS[tier];
+    if (bucket === 0) return true;
+    const key = `${tier}:${Math.floor(s.time / bucket)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Appends to the profile's stored snapshots and returns them all
+export const recordEquitySnapshot = (profileId: string, snapshot: EquitySnapshot): EquitySnapshot[] => {
+  const snapshots = appendEquitySnapshot(loadEquitySnapshots(profileId), snapshot);
+  saveEquitySnapshots(snapshots, profileId);
+  return snapshots;
+};
+
+const getValue = (snapshot: EquitySnapshot, coinId: string) => {
+  const holding = snapshot.holdings[coinId];
+  return holding ? holding.balance * holding.price : 0;
+};
+
+const startOfDay = (time: number) => {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+// Largest fall from a running peak, and when (if ever) equity regained that peak
+const computeDrawdown = (snapshots: EquitySnapshot[]): DrawdownStats | null => {
+  let peak = snapshots[0];
+  let worstPeak = peak;
+  let trough: EquitySnapshot | null = null;
+  let worstPercent = 0;
+  snapshots.forEach(s => {
+    if (s.equity >= peak.equity) {
+      peak = s;
+      return;
+    }
+    const percent = peak.equity > 0 ? ((s.equity - peak.equity) / peak.equity) * 100 : 0;
+    if (percent < worstPercent) {
+      worstPercent = percent;
+      worstPeak = peak;
+      trough = s;
+    }
+  });
+  if (!trough) return null;
+  const troughTime = trough.time;
+  const recovery = snapshots.find(s => s.time > troughTime && s.equity >= worstPeak.equity);
+  return {
+    percent: worstPercent,
+    amount: trough.equity - worstPeak.equity,
+    peakTime: worstPeak.time,
+    troughTime,
+    recoveredTime: recovery ? recovery.time : null,
+  };
+};
+
+// Realized volatility from log returns between snapshots, scaled to one day
+// by elapsed time so uneven spacing (after thinning) doesn't skew it
+const computeDailyVolatility = (snapshots: EquitySnapshot[]) => {
+  let sumSquares = 0;
+  let elapsed = 0;
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    if (previous.equity <= 0 || current.equity <= 0) continue;
+    sumSquares += Math.log(current.equity / previous.equity) ** 2;
+    elapsed += current.time - previous.time;
+  }
+  return elapsed > 0 ? Math.sqrt((sumSquares / elapsed) * DAY_MS) * 100 : null;
+};
+
+// Change of each calendar day's closing equity over the previous close
+const computeDays = (snapshots: EquitySnapshot[]): DayReturn[] => {
+  const closes: { day: number; equity: number }[] = [];
+  snapshots.forEach(s => {
+    const day = startOfDay(s.time);
+    const last = closes[closes.length - 1];
+    if (last && last.day === day) last.equity = s.equity;
+    else closes.push({ day, equity: s.equity });
+  });
+  return closes.map((close, i) => {
+    const previous = i > 0 ? closes[i - 1].equity : snapshots[0].equity;
+    const change = close.equity - previous;
+    return { day: close.day, change, percent: previous > 0 ? (change / previous) * 100 : 0 };
+  });
+};
+
+// Price-driven P&L per coin: the balance held at each snapshot times the
+// price move to the next one. A coin sold out between snapshots has no price
+// recorded for the step, so that last move lands in `flows`.
+const computeContributions = (snapshots: EquitySnapshot[]): CoinContribution[] => {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const totals: Record<string, number> = {};
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    Object.entries(previous.holdings).forEach(([coinId, holding]) => {
+      const next = current.holdings[coinId];
+      totals[coinId] = (totals[coinId] ?? 0) + (next ? holding.balance * (next.price - holding.price) : 0);
+    });
+  }
+  const coinIds = new Set([...Object.keys(totals), ...Object.keys(first.holdings), ...Object.keys(last.holdings)]);
+  return Array.from(coinIds)
+    .map(coinId => ({ coinId, contribution: totals[coinId] ?? 0, startValue: getValue(first, coinId), endValue: getValue(last, coinId) }))
+    .sort((a, b) => b.contribution - a.contribution);
+};
+
+const computeRepricings = (snapshots: EquitySnapshot[], auditLog: AuditEntry[]): RepricingImpact[] => {
+  const start = snapshots[0].time;
+  const end = snapshots[snapshots.length - 1].time;
+  return auditLog
+    .filter(entry => entry.field === 'basePrice' && entry.timestamp >= start && entry.timestamp <= end)
+    .map(entry => {
+      // The holding as of the last snapshot before the change
+      const before = snapshots.filter(s => s.time <= entry.timestamp).pop() ?? snapshots[0];
+      const balance = before.holdings[entry.coinId]?.balance ?? 0;
+      const impact = balance * (entry.newValue - entry.previousValue);
+      return { entry, balance, impact, equityPercent: before.equity > 0 ? (impact / before.equity) * 100 : 0 };
+    })
+    .filter(r => r.balance > 0);
+};
+
+// Analytics over the snapshots in `range`. The last snapshot before the range
+// anchors the starting value.
+export const computeEquityAnalytics = (
+  snapshots: EquitySnapshot[],
+  auditLog: AuditEntry[],
+  range: EquityRange,
+  now = Date.now(),
+): EquityAnalytics | null => {
+  const since = now - EQUITY_RANGES[range].span;
+  const firstIndex = snapshots.findIndex(s => s.time >= since);
+  if (firstIndex === -1) return null;
+  const window = snapshots.slice(Math.max(0, firstIndex - 1));
+  if (window.length < 2) return null;
+
+  let peak = window[0].equity;
+  const series = window.map(s => {
+    peak = Math.max(peak, s.equity);
+    const values: Record<string, number> = {};
+    Object.keys(s.holdings).forEach(coinId => {
+      values[coinId] = getValue(s, coinId);
+    });
+    return { time: s.time, equity: s.equity, drawdown: peak > 0 ? ((s.equity - peak) / peak) * 100 : 0, values };
+  });
+
+  const startEquity = window[0].equity;
+  const endEquity = window[window.length - 1].equity;
+  const change = endEquity - startEquity;
+  const days = computeDays(window);
+  const contributions = computeContributions(window);
+  const dailyVolatility = computeDailyVolatility(window);
+
+  return {
+    series,
+    startEquity,
+    endEquity,
+    change,
+    changePercent: startEquity > 0 ? (change / startEquity) * 100 : 0,
+    maxDrawdown: computeDrawdown(window),
+    dailyVolatility,
+    annualizedVolatility: dailyVolatility !== null ? dailyVolatility * Math.sqrt(365) : null,
+    days,
+    bestDay: days.length > 0 ? days.reduce((best, d) => (d.percent > best.percent ? d : best)) : null,
+    worstDay: days.length > 0 ? days.reduce((worst, d) => (d.percent < worst.percent ? d : worst)) : null,
+    contributions,
+    flows: change - contributions.reduce((acc, c) => acc + c.contribution, 0),
+    repricings: computeRepricings(window, auditLog),
+  };
+};
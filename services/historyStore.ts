@@ -0,0 +1,155 @@
+import { Candle, CoinData, CoinHistory, MarketHistory, PriceModelParams, PricePoint, Timeframe } from '../types';
+import { DEFAULT_TICK_LIQUIDITY, HISTORY_RETENTION, SIMULATION_INTERVAL } from '../constants';
+import { stepPrice } from './priceModels';
+import { Rng } from './random';
+
+// Long-horizon price history: raw ticks are kept for a short window and rolled
+// up into OHLC candles for each timeframe, each with its own retention limit.
+
+export const TIMEFRAMES: Timeframe[] = ['1m', '5m', '1h', '1d'];
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const BACKFILL_MINUTES = 24 * 60; // Synthetic history generated for a fresh market
+const BACKFILL_STEPS_PER_MINUTE = 4;
+
+export const createEmptyHistory = (): CoinHistory => ({
+  ticks: [],
+  candles: { '1m': [], '5m': [], '1h': [], '1d': [] },
+});
+
+const bucketStart = (time: number, timeframe: Timeframe) => {
+  // Daily buckets follow the local calendar day rather than UTC
+  if (timeframe === '1d') {
+    const day = new Date(time);
+    day.setHours(0, 0, 0, 0);
+    return day.getTime();
+  }
+  return Math.floor(time / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe];
+};
+
+// Simulated quantity traded on a tick. Activity scales with the size of the
+// move relative to the coin's normal volatility, so repricings show up as
+// volume spikes; a coin priced at zero doesn't trade.
+export const simulateTickVolume = (coin: CoinData, previousPrice: number | undefined, liquidity = coin.liquidity ?? DEFAULT_TICK_LIQUIDITY) => {
+  if (coin.currentPrice <= 0) return 0;
+  const move = previousPrice && previousPrice > 0 ? Math.abs(Math.log(coin.currentPrice / previousPrice)) : 0;
+  const activity = 0.5 + move / Math.max(coin.model.volatility, 1e-6);
+  return (liquidity * activity) / coin.currentPrice;
+};
+
+// Folds a trade into the candle list in place: extends the open bucket or starts a new one
+const addToCandles = (candles: Candle[], timeframe: Timeframe, time: number, price: number, volume: number) => {
+  const start = bucketStart(time, timeframe);
+  const last = candles[candles.length - 1];
+  if (last && last.time === start) {
+    candles[candles.length - 1] = {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price,
+      volume: last.volume + volume,
+      quoteVolume: last.quoteVolume + price * volume,
+    };
+  } else if (!last || start > last.time) {
+    candles.push({ time: start, open: price, high: price, low: price, close: price, volume, quoteVolume: price * volume });
+  }
+  // Out-of-order prices older than the open bucket are ignored
+};
+
+const trim = <T,>(items: T[], limit: number) => (items.length > limit ? items.slice(items.length - limit) : items);
+
+// Records one tick for a coin. Each list the tick lands in is copied before it
+// changes, so arrays already handed to components and memos never move under them.
+export const recordTick = (history: CoinHistory, time: number, price: number, volume: number): CoinHistory => {
+  const candles = {} as Record<Timeframe, Candle[]>;
+  TIMEFRAMES.forEach(tf => {
+    const list = history.candles[tf].slice();
+    addToCandles(list, tf, time, price, volume);
+    candles[tf] = trim(list, HISTORY_RETENTION[tf]);
+  });
+  return {
+    ticks: trim([...history.ticks, { time, price, volume }], HISTORY_RETENTION.ticks),
+    candles,
+  };
+};
+
+// Records the current price of every coin at `time`
+export const recordMarketTick = (market: MarketHistory, coins: CoinData[], time: number): MarketHistory => {
+  const next: MarketHistory = { ...market };
+  coins.forEach(coin => {
+    const history = market[coin.id] ?? createEmptyHistory();
+    const previous = history.ticks[history.ticks.length - 1];
+    next[coin.id] = recordTick(history, time, coin.currentPrice, simulateTickVolume(coin, previous?.price));
+  });
+  return next;
+};
+
+// Scales per-tick model parameters to a longer step of `ticks` simulation ticks
+const scaleModel = (model: PriceModelParams, ticks: number): PriceModelParams => ({
+  ...model,
+  drift: model.drift * ticks,
+  volatility: model.volatility * Math.sqrt(ticks),
+  meanReversion: model.meanReversion !== undefined ? 1 - Math.pow(1 - model.meanReversion, ticks) : undefined,
+  jumpProbability: model.jumpProbability !== undefined ? Math.min(1, model.jumpProbability * ticks) : undefined,
+  switchProbability: model.switchProbability !== undefined ? Math.min(1, model.switchProbability * ticks) : undefined,
+});
+
+// Generates the last 24 hours of candles for a coin from its own price model,
+// so a fresh market opens with a meaningful daily range. The path is rescaled
+// to end exactly at the coin's current price.
+export const backfillHistory = (coin: CoinData, now: number, rng: Rng): CoinHistory => {
+  const stepMs = TIMEFRAME_MS['1m'] / BACKFILL_STEPS_PER_MINUTE;
+  const ticksPerStep = stepMs / SIMULATION_INTERVAL;
+  const steps = BACKFILL_MINUTES * BACKFILL_STEPS_PER_MINUTE;
+
+  let walker: CoinData = { ...coin, model: scaleModel(coin.model, ticksPerStep) };
+  const prices: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    const { price, regime } = stepPrice(walker, rng);
+    walker = { ...walker, currentPrice: price, regime };
+    prices.push(price);
+  }
+
+  const last = prices[prices.length - 1];
+  const scale = last > 0 ? coin.currentPrice / last : 0;
+  const liquidity = (coin.liquidity ?? DEFAULT_TICK_LIQUIDITY) * ticksPerStep;
+  const history = createEmptyHistory();
+  prices.forEach((price, i) => {
+    const time = now - (steps - 1 - i) * stepMs;
+    const scaled = price * scale;
+    const volume = simulateTickVolume({ ...walker, currentPrice: scaled }, i > 0 ? prices[i - 1] * scale : undefined, liquidity);
+    TIMEFRAMES.forEach(tf => addToCandles(history.candles[tf], tf, time, scaled, volume));
+  });
+  TIMEFRAMES.forEach(tf => {
+    history.candles[tf] = trim(history.candles[tf], HISTORY_RETENTION[tf]);
+  });
+  return history;
+};
+
+export const backfillMarket = (coins: CoinData[], now: number, rng: Rng): MarketHistory => {
+  const market: MarketHistory = {};
+  coins.forEach(coin => {
+    market[coin.id] = backfillHistory(coin, now, rng);
+  });
+  return market;
+};
+
+// Chart-ready points (close prices) for a timeframe, labelled to suit its scale
+export const toPricePoints = (candles: Candle[], timeframe: Timeframe): PricePoint[] =>
+  candles.map(candle => ({
+    time: formatCandleTime(candle.time, timeframe),
+    value: candle.close,
+  }));
+
+export const formatCandleTime = (time: number, timeframe: Timeframe) => {
+  const date = new Date(time);
+  if (timeframe === '1d') return date.toLocaleDateString();
+  if (timeframe === '1h') return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  return date.toLocaleTimeString();
+};
@@ -0,0 +1,4 @@
+let counter = 0;
+
+// Short unique id for locally created records, e.g. "sch-lq3k2x-1"
+export const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(++counter).toString(36)}`;
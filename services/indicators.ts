@@ -0,0 +1,201 @@
+import { Candle, IndicatorConfig, IndicatorType } from '../types';
+import { createId } from './ids';
+
+// Technical indicators for the detailed chart. Every series is aligned with the
+// input candles; positions without enough data yet are null.
+
+export type Series = (number | null)[];
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+  integer?: boolean; // Periods and other counts are rounded to whole numbers
+}
+
+// Longest look-back any period can be set to
+const MAX_PERIOD = 200;
+
+export interface IndicatorDefinition {
+  label: string;
+  placement: 'overlay' | 'pane'; // Drawn over the price or in its own pane below
+  params: IndicatorParam[];
+}
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: { label: 'SMA', placement: 'overlay', params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 1, max: MAX_PERIOD, integer: true }] },
+  ema: { label: 'EMA', placement: 'overlay', params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 1, max: MAX_PERIOD, integer: true }] },
+  bollinger: {
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [
+      { key: 'period', label: 'Period', defaultValue: 20, min: 2, max: MAX_PERIOD, integer: true },
+      { key: 'stdDev', label: 'Std Dev', defaultValue: 2, min: 0.1, max: 5, step: 0.1 },
+    ],
+  },
+  vwap: { label: 'VWAP', placement: 'overlay', params: [] },
+  rsi: { label: 'RSI', placement: 'pane', params: [{ key: 'period', label: 'Period', defaultValue: 14, min: 2, max: MAX_PERIOD, integer: true }] },
+  macd: {
+    label: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: MAX_PERIOD, integer: true },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 2, max: MAX_PERIOD, integer: true },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: MAX_PERIOD, integer: true },
+    ],
+  },
+  volume: { label: 'Volume', placement: 'pane', params: [] },
+};
+
+const INDICATOR_COLORS = ['#f7a600', '#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308'];
+
+export const createIndicator = (type: IndicatorType, existing: IndicatorConfig[]): IndicatorConfig => {
+  const params: Record<string, number> = {};
+  INDICATOR_DEFINITIONS[type].params.forEach(param => {
+    params[param.key] = param.defaultValue;
+  });
+  return {
+    id: createId('ind'),
+    type,
+    params,
+    color: INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+  };
+};
+
+export const sma = (values: number[], period: number): Series => {
+  const result: Series = [];
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+// Seeded with the SMA of the first `period` values
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  const result: Series = [];
+  let previous: number | null = null;
+  values.forEach((value, i) => {
+    if (i < period - 1) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null
+      ? values.slice(0, period).reduce((a, b) => a + b, 0) / period
+      : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+export const bollinger = (values: number[], period: number, stdDev: number) => {
+  const middle = sma(values, period);
+  const upper: Series = [];
+  const lower: Series = [];
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    upper.push(mean + stdDev * deviation);
+    lower.push(mean - stdDev * deviation);
+  });
+  return { middle, upper, lower };
+};
+
+// Cumulative VWAP over the candles shown; falls back to the close until volume trades
+export const vwap = (candles: Candle[]): Series => {
+  let volume = 0;
+  let quoteVolume = 0;
+  return candles.map(candle => {
+    volume += candle.volume;
+    quoteVolume += candle.quoteVolume;
+    return volume > 0 ? quoteVolume / volume : candle.close;
+  });
+};
+
+// Wilder's RSI
+export const rsi = (values: number[], period: number): Series => {
+  const result: Series = [null];
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    if (i <= period) {
+      gain += up / period;
+      loss += down / period;
+    } else {
+      gain = (gain * (period - 1) + up) / period;
+      loss = (loss * (period - 1) + down) / period;
+    }
+    if (i < period) {
+      result.push(null);
+    } else {
+      result.push(loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss));
+    }
+  }
+  return result.slice(0, values.length);
+};
+
+export const macd = (values: number[], fast: number, slow: number, signal: number) => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f !== null && s !== null ? f - s : null;
+  });
+  // The signal line is an EMA of the defined part of the MACD line
+  const start = line.findIndex(v => v !== null);
+  const signalLine: Series = start < 0
+    ? line.map(() => null)
+    : [...line.slice(0, start), ...ema(line.slice(start) as number[], signal)];
+  const histogram: Series = line.map((v, i) => {
+    const s = signalLine[i];
+    return v !== null && s !== null ? v - s : null;
+  });
+  return { line, signal: signalLine, histogram };
+};
+
+// Series for one indicator keyed by chart data key, e.g. `${id}_upper`
+export const computeIndicator = (config: IndicatorConfig, candles: Candle[]): Record<string, Series> => {
+  const closes = candles.map(c => c.close);
+  const p = config.params;
+  switch (config.type) {
+    case 'sma':
+      return { [config.id]: sma(closes, p.period) };
+    case 'ema':
+      return { [config.id]: ema(closes, p.period) };
+    case 'bollinger': {
+      const bands = bollinger(closes, p.period, p.stdDev);
+      return { [`${config.id}_middle`]: bands.middle, [`${config.id}_upper`]: bands.upper, [`${config.id}_lower`]: bands.lower };
+    }
+    case 'vwap':
+      return { [config.id]: vwap(candles) };
+    case 'rsi':
+      return { [config.id]: rsi(closes, p.period) };
+    case 'macd': {
+      const result = macd(closes, p.fast, p.slow, p.signal);
+      return { [`${config.id}_macd`]: result.line, [`${config.id}_signal`]: result.signal, [`${config.id}_hist`]: result.histogram };
+    }
+    case 'volume':
+      return { [config.id]: candles.map(c => c.volume) };
+  }
+};
+
+// Short legend text, e.g. "SMA 20" or "MACD 12 26 9"
+export const describeIndicator = (config: IndicatorConfig) => {
+  const definition = INDICATOR_DEFINITIONS[config.type];
+  return [definition.label, ...definition.params.map(param => config.params[param.key])].join(' ');
+};
@@ -0,0 +1,103 @@
+import { CoinData, Fill, Ledger, Order, TradeSide, Wallet } from '../types';
+import { INITIAL_CASH, INITIAL_WALLET } from '../constants';
+import { createId } from './ids';
+import { DEFAULT_PROFILE_ID, getProfileKey } from './profiles';
+
+// Paper-trading ledger of one profile: a USDT cash balance, the coin wallet,
+// resting orders and the history of every fill, kept in localStorage.
+
+const LEDGER_KEY = 'instaitex.ledger';
+const MAX_FILLS = 1000;
+
+export type OrderResult =
+  | { ok: true; fill: Fill; ledger: Ledger }
+  | { ok: false; error: string };
+
+export const createLedger = (profileId: string): Ledger => ({
+  cash: INITIAL_CASH,
+  wallet: profileId === DEFAULT_PROFILE_ID ? { ...INITIAL_WALLET } : {},
+  fills: [],
+  orders: [],
+});
+
+export const loadLedger = (profileId = DEFAULT_PROFILE_ID): Ledger => {
+  try {
+    const raw = localStorage.getItem(getProfileKey(LEDGER_KEY, profileId));
+    return raw ? { ...createLedger(profileId), ...JSON.parse(raw) } : createLedger(profileId);
+  } catch {
+    return createLedger(profileId);
+  }
+};
+
+// Every profile's ledger; a run with a pinned seed starts them all fresh
+export const loadLedgers = (profileIds: string[], fresh = false): Record<string, Ledger> => {
+  const ledgers: Record<string, Ledger> = {};
+  profileIds.forEach(id => {
+    ledgers[id] = fresh ? createLedger(id) : loadLedger(id);
+  });
+  return ledgers;
+};
+
+export const saveLedger = (ledger: Ledger, profileId = DEFAULT_PROFILE_ID) => {
+  try {
+    localStorage.setItem(getProfileKey(LEDGER_KEY, profileId), JSON.stringify(ledger));
+  } catch (error) {
+    console.warn('Failed to save ledger', error);
+  }
+};
+
+export const resetLedger = (profileId = DEFAULT_PROFILE_ID): Ledger => {
+  localStorage.removeItem(getProfileKey(LEDGER_KEY, profileId));
+  return createLedger(profileId);
+};
+
+// Moves the balances of a coin snapshot saved before wallets existed into the
+// default profile's wallet, unless that ledger already has one
+export const adoptLegacyWallet = (wallet: Wallet) => {
+  try {
+    const raw = localStorage.getItem(LEDGER_KEY);
+    if (raw && JSON.parse(raw).wallet) return;
+  } catch {
+    // An unreadable ledger is replaced below
+  }
+  saveLedger({ ...loadLedger(), wallet });
+};
+
+export const getBalance = (ledger: Ledger, coinId: string) => ledger.wallet[coinId] ?? 0;
+
+export const setBalance = (ledger: Ledger, coinId: string, balance: number): Ledger =>
+  ({ ...ledger, wallet: { ...ledger.wallet, [coinId]: balance } });
+
+// Fills an order at `price` (the coin's current price unless the caller walked
+// the order book). Returns the updated ledger without saving it. `order` links
+// the fill to the order it completes.
+export const executeMarketOrder = (ledger: Ledger, coin: CoinData, side: TradeSide, quantity: number, now = Date.now(), order?: Order, price = coin.currentPrice): OrderResult => {
+  if (!(quantity > 0)) return { ok: false, error: 'Enter an amount greater than zero.' };
+  if (price <= 0) return { ok: false, error: `${coin.symbol} has no market price.` };
+
+  const total = quantity * price;
+  if (side === 'buy' && total > ledger.cash) {
+    return { ok: false, error: `Insufficient USDT: ${total.toFixed(2)} needed, ${ledger.cash.toFixed(2)} available.` };
+  }
+  const balance = getBalance(ledger, coin.id);
+  if (side === 'sell' && quantity > balance) {
+    return { ok: false, error: `Insufficient ${coin.symbol}: ${balance.toLocaleString()} available.` };
+  }
+
+  const fill: Fill = { id: createId('fill'), timestamp: now, coinId: coin.id, side, price, quantity, total, orderId: order?.id, orderType: order?.type };
+  const fills = [...ledger.fills, fill];
+  return {
+    ok: true,
+    fill,
+    ledger: {
+      ...ledger,
+      cash: side === 'buy' ? ledger.cash - total : ledger.cash + total,
+      wallet: { ...ledger.wallet, [coin.id]: side === 'buy' ? balance + quantity : balance - quantity },
+      fills: fills.length > MAX_FILLS ? fills.slice(fills.length - MAX_FILLS) : fills,
+    },
+  };
+};
+
+// Cash plus the market value of every coin balance
+export const getTotalAssets = (ledger: Ledger, coins: CoinData[]) =>
+  ledger.cash + coins.reduce((acc, c) => acc + getBalance(ledger, c.id) * c.currentPrice, 0);
@@ -0,0 +1,76 @@
+import { CoinData, CoinStatus, PriceModelType, SettlementConfig, SettlementIcon, SettlementKind } from '../types';
+import { DEFAULT_MODEL_PARAMS } from './priceModels';
+import { isValidBotHandle, normalizeBotHandle } from './telegramGateway';
+
+// Runtime listing, pausing and delisting of coins from the admin panel.
+// Listed coins live in the saved market snapshot alongside the defaults.
+
+export const COIN_STATUS_LABELS: Record<CoinStatus, string> = {
+  active: 'Active',
+  paused: 'Trading Paused',
+  delisted: 'Delisted',
+};
+
+export interface NewListing {
+  name: string;
+  symbol: string; // Also used as the coin id
+  description: string;
+  color: string;
+  initialPrice: number;
+  modelType: PriceModelType;
+  settlementKind: SettlementKind;
+  settlementUrl?: string; // Link for 'referral' and 'mining', bot handle for 'telegram'
+}
+
+const SETTLEMENT_ICONS: Record<SettlementKind, SettlementIcon> = {
+  simulated: 'trending-up',
+  telegram: 'external-link',
+  referral: 'external-link',
+  mining: 'hammer',
+};
+
+export const getCoinStatus = (coin: CoinData): CoinStatus => coin.status ?? 'active';
+export const isListed = (coin: CoinData) => getCoinStatus(coin) !== 'delisted';
+export const isTradingPaused = (coin: CoinData) => getCoinStatus(coin) === 'paused';
+
+export const validateListing = (listing: NewListing, coins: CoinData[]): string | null => {
+  const symbol = listing.symbol.trim();
+  if (!listing.name.trim()) return 'Enter a name.';
+  if (!/^[A-Za-z0-9]{2,10}$/.test(symbol)) return 'The symbol must be 2-10 letters or digits.';
+  // Delisted coins keep their id, so a symbol can't be reused while one exists
+  if (coins.some(c => c.id.toLowerCase() === symbol.toLowerCase())) return `${symbol} is already listed (or was delisted).`;
+  if (!(listing.initialPrice >= 0)) return 'The initial price can\'t be negative.';
+  if (listing.settlementKind === 'telegram' && !isValidBotHandle(listing.settlementUrl ?? '')) {
+    return 'Enter the Telegram bot handle, e.g. @Insbitg.';
+  }
+  if ((listing.settlementKind === 'referral' || listing.settlementKind === 'mining') && !/^https?:\/\//.test(listing.settlementUrl?.trim() ?? '')) {
+    return 'Enter an http(s) link for this settlement route.';
+  }
+  return null;
+};
+
+export const createListedCoin = (listing: NewListing, now = Date.now()): CoinData => {
+  const symbol = listing.symbol.trim();
+  const settlement: SettlementConfig = {
+    kind: listing.settlementKind,
+    label: listing.settlementKind === 'mining' ? `Mine ${symbol}` : `Buy ${symbol}`,
+    icon: SETTLEMENT_ICONS[listing.settlementKind],
+    color: listing.color,
+    url: listing.settlementKind === 'referral' || listing.settlementKind === 'mining' ? listing.settlementUrl?.trim() : undefined,
+    botHandle: listing.settlementKind === 'telegram' ? normalizeBotHandle(listing.settlementUrl ?? '') : undefined,
+  };
+  return {
+    id: symbol,
+    name: listing.name.trim(),
+    symbol,
+    description: listing.description.trim(),
+    basePrice: listing.initialPrice,
+    currentPrice: listing.initialPrice,
+    history: [{ time: new Date(now).toLocaleTimeString(), value: listing.initialPrice }],
+    color: listing.color,
+    model: { ...DEFAULT_MODEL_PARAMS[listing.modelType] },
+    settlement,
+    display: { badge: 'New', avatar: symbol.slice(0, 4) },
+    status: 'active',
+  };
+};
@@ -0,0 +1,62 @@
+import { CoinData, CoinHistory, MarketHistory } from '../types';
+
+// Rolling 24h statistics computed from the recorded 1m candles, so every
+// ticker, card and trade header reports the same figures.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MarketStats {
+  open: number; // Price 24h ago (or the oldest recorded price)
+  last: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  volume: number; // Base-asset quantity traded in the window
+  quoteVolume: number; // USDT value traded in the window
+  vwap: number;
+}
+
+export const computeMarketStats = (coin: CoinData, history: CoinHistory | undefined, now: number): MarketStats => {
+  const last = coin.currentPrice;
+  const since = now - DAY_MS;
+  // A 1m candle belongs to the window if any part of it falls inside
+  const candles = history ? history.candles['1m'].filter(c => c.time + 60 * 1000 > since) : [];
+
+  const open = candles.length > 0 ? candles[0].open : last;
+  let high = last;
+  let low = last;
+  let volume = 0;
+  let quoteVolume = 0;
+  candles.forEach(candle => {
+    high = Math.max(high, candle.high);
+    low = Math.min(low, candle.low);
+    volume += candle.volume;
+    quoteVolume += candle.quoteVolume;
+  });
+
+  const change = last - open;
+  return {
+    open,
+    last,
+    change,
+    changePercent: open > 0 ? (change / open) * 100 : 0,
+    high,
+    low,
+    volume,
+    quoteVolume,
+    vwap: volume > 0 ? quoteVolume / volume : last,
+  };
+};
+
+export const computeAllMarketStats = (coins: CoinData[], market: MarketHistory, now: number): Record<string, MarketStats> => {
+  const stats: Record<string, MarketStats> = {};
+  coins.forEach(coin => {
+    stats[coin.id] = computeMarketStats(coin, market[coin.id], now);
+  });
+  return stats;
+};
+
+// Compact volume figure, e.g. 1.2M
+export const formatVolume = (value: number) =>
+  value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 2 });
@@ -0,0 +1,133 @@
+import { CoinData, MarketSort, MarketView, SortDirection, Wallet, Watchlist } from '../types';
+import { createId } from './ids';
+import { MarketStats } from './marketStats';
+
+// Sorting, filtering and watchlists for the markets grid and table
+
+const FAVORITES_KEY = 'instaitex.favorites';
+const WATCHLISTS_KEY = 'instaitex.watchlists';
+const ACTIVE_WATCHLIST_KEY = 'instaitex.watchlists.active';
+const VIEW_KEY = 'instaitex.markets.view';
+
+// The built-in list, stored under the original favorites key
+export const FAVORITES_ID = 'favorites';
+
+export const MARKET_SORT_LABELS: Record<MarketSort, string> = {
+  default: 'Featured',
+  name: 'Name',
+  price: 'Price',
+  change: '24h Change',
+  high: '24h High',
+  low: '24h Low',
+  holdings: 'Holdings',
+  value: 'Value',
+};
+
+// Sorts offered as buttons above the card grid; the table sorts on any column
+export const GRID_SORTS: MarketSort[] = ['default', 'value', 'change', 'name'];
+
+// Names sort alphabetically, figures highest first, unless flipped
+export const DEFAULT_SORT_DIRECTIONS: Record<MarketSort, SortDirection> = {
+  default: 'asc',
+  name: 'asc',
+  price: 'desc',
+  change: 'desc',
+  high: 'desc',
+  low: 'desc',
+  holdings: 'desc',
+  value: 'desc',
+};
+
+const loadList = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Every watchlist, starting with Favorites
+export const loadWatchlists = (): Watchlist[] => [
+  { id: FAVORITES_ID, name: 'Favorites', coinIds: loadList<string[]>(FAVORITES_KEY, []) },
+  ...loadList<Watchlist[]>(WATCHLISTS_KEY, []).filter(w => w.id !== FAVORITES_ID),
+];
+
+export const saveWatchlists = (watchlists: Watchlist[]) => {
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(watchlists.find(w => w.id === FAVORITES_ID)?.coinIds ?? []));
+  localStorage.setItem(WATCHLISTS_KEY, JSON.stringify(watchlists.filter(w => w.id !== FAVORITES_ID)));
+};
+
+// null means all markets
+export const loadActiveWatchlistId = (watchlists: Watchlist[]): string | null => {
+  const saved = localStorage.getItem(ACTIVE_WATCHLIST_KEY);
+  return watchlists.some(w => w.id === saved) ? saved : null;
+};
+
+export const saveActiveWatchlistId = (watchlistId: string | null) => {
+  if (watchlistId) localStorage.setItem(ACTIVE_WATCHLIST_KEY, watchlistId);
+  else localStorage.removeItem(ACTIVE_WATCHLIST_KEY);
+};
+
+export const loadMarketView = (): MarketView => (localStorage.getItem(VIEW_KEY) === 'table' ? 'table' : 'grid');
+
+export const saveMarketView = (view: MarketView) => {
+  localStorage.setItem(VIEW_KEY, view);
+};
+
+export const validateWatchlistName = (name: string, watchlists: Watchlist[]): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a name.';
+  if (trimmed.length > 24) return 'Keep the name to 24 characters.';
+  if (watchlists.some(w => w.name.toLowerCase() === trimmed.toLowerCase())) return `${trimmed} already exists.`;
+  return null;
+};
+
+export const createWatchlist = (name: string): Watchlist => ({ id: createId('wl'), name: name.trim(), coinIds: [] });
+
+export const toggleWatchlistCoin = (watchlists: Watchlist[], watchlistId: string, coinId: string): Watchlist[] =>
+  watchlists.map(w => {
+    if (w.id !== watchlistId) return w;
+    return { ...w, coinIds: w.coinIds.includes(coinId) ? w.coinIds.filter(id => id !== coinId) : [...w.coinIds, coinId] };
+  });
+
+// Matches the query against symbol, name and description, case-insensitively,
+// within the watchlist if one is given
+export const filterMarkets = (coins: CoinData[], query: string, watchlist: Watchlist | null) => {
+  const needle = query.trim().toLowerCase();
+  return coins.filter(coin =>
+    (!watchlist || watchlist.coinIds.includes(coin.id)) &&
+    (!needle || [coin.symbol, coin.name, coin.description].some(text => text.toLowerCase().includes(needle))));
+};
+
+const getSortValue = (coin: CoinData, sort: MarketSort, stats: MarketStats | undefined, wallet: Wallet) => {
+  switch (sort) {
+    case 'change': return stats?.changePercent ?? 0;
+    case 'high': return stats?.high ?? coin.currentPrice;
+    case 'low': return stats?.low ?? coin.currentPrice;
+    case 'holdings': return wallet[coin.id] ?? 0;
+    case 'value': return (wallet[coin.id] ?? 0) * coin.currentPrice;
+    default: return coin.currentPrice;
+  }
+};
+
+// 'default' keeps the listing order
+export const sortMarkets = (
+  coins: CoinData[],
+  sort: MarketSort,
+  stats: Record<string, MarketStats>,
+  wallet: Wallet,
+  direction = DEFAULT_SORT_DIRECTIONS[sort],
+) => {
+  if (sort === 'default') return coins;
+  const sign = direction === 'asc' ? 1 : -1;
+  return coins.slice().sort((a, b) => sign * (sort === 'name'
+    ? a.name.localeCompare(b.name)
+    : getSortValue(a, sort, stats[a.id], wallet) - getSortValue(b, sort, stats[b.id], wallet)));
+};
+
+// Enough decimals to show small-cap prices, e.g. 0.0000014 or 1.00
+export const formatPrice = (price: number) => {
+  if (price >= 1 || price <= 0) return price.toFixed(2);
+  return price.toFixed(Math.min(10, Math.max(4, 1 - Math.floor(Math.log10(price)) + 1)));
+};
@@ -0,0 +1,67 @@
+import { CoinData, CoinId, NewsItem } from '../types';
+import { MOCK_NEWS } from '../constants';
+import { createId } from './ids';
+
+// Articles published from the admin panel at runtime. They are listed above
+// the built-in MOCK_NEWS and are what news alerts fire on. Kept in
+// localStorage, newest first.
+
+const NEWS_KEY = 'instaitex.news';
+
+const MAX_PUBLISHED = 100;
+
+export interface NewsDraft {
+  coinId: CoinId;
+  title: string;
+  summary: string;
+  priceImpact: number; // Percent, e.g. -2.1
+}
+
+export const loadPublishedNews = (): NewsItem[] => {
+  try {
+    const raw = localStorage.getItem(NEWS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const savePublishedNews = (news: NewsItem[]) => {
+  try {
+    localStorage.setItem(NEWS_KEY, JSON.stringify(news));
+  } catch (error) {
+    console.warn('Failed to save news', error);
+  }
+};
+
+// Published articles first, then the built-in ones
+export const getNewsFeed = (published: NewsItem[]) => [...published, ...MOCK_NEWS];
+
+export const validateNews = (draft: NewsDraft, coins: CoinData[]): string | null => {
+  if (!coins.some(c => c.id === draft.coinId)) return 'Pick a coin.';
+  if (!draft.title.trim()) return 'Enter a headline.';
+  if (!draft.summary.trim()) return 'Enter a summary.';
+  if (!Number.isFinite(draft.priceImpact)) return 'Enter the price impact as a percentage.';
+  return null;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The article page renders content as HTML, so the admin's text is escaped
+export const createNewsItem = (draft: NewsDraft, now = Date.now()): NewsItem => {
+  const summary = draft.summary.trim();
+  return {
+    id: createId('news'),
+    category: 'article',
+    title: draft.title.trim(),
+    summary,
+    content: `<p>${escapeHtml(summary)}</p>`,
+    date: new Date(now).toLocaleDateString('ru-RU'),
+    relatedCoinId: draft.coinId,
+    priceImpact: `${draft.priceImpact >= 0 ? '+' : '-'}${Math.abs(draft.priceImpact).toFixed(2)}%`,
+  };
+};
+
+// Adds an article at the top of the published list, keeping the most recent
+export const publishNews = (published: NewsItem[], item: NewsItem) => [item, ...published].slice(0, MAX_PUBLISHED);
@@ -0,0 +1,125 @@
+import { CoinData, TradeSide } from '../types';
+import { DEFAULT_TICK_LIQUIDITY } from '../constants';
+import { Rng } from './random';
+
+// Synthetic L2 order book regenerated around the live price every tick.
+// Prices snap to a tick size derived from the price's magnitude, the spread
+// widens with volatility and the book thins out as volatility rises.
+
+export interface BookLevel {
+  price: number;
+  quantity: number;
+  cumulative: number; // Quantity available from the best price up to this level
+}
+
+export interface OrderBook {
+  bids: BookLevel[]; // Best (highest) first
+  asks: BookLevel[]; // Best (lowest) first
+  mid: number;
+  spread: number;
+  tickSize: number;
+}
+
+export interface BookFill {
+  averagePrice: number;
+  worstPrice: number;
+  slippage: number; // Fractional difference between the average and the mid price
+}
+
+const BOOK_LEVELS = 20;
+const REFERENCE_VOLATILITY = 0.004; // Volatility at which the book has its base depth
+const LEVEL_NOTIONAL_TICKS = 20; // Ticks' worth of traded value resting on each level
+
+// Four significant digits of precision: 0.000001 trades in 1e-9 steps, 1.0 in 0.001 steps
+export const getTickSize = (price: number) =>
+  price > 0 ? Math.pow(10, Math.floor(Math.log10(price)) - 3) : 0;
+
+const roundToTick = (price: number, tick: number) => Math.round(price / tick) * tick;
+
+const withCumulative = (levels: { price: number; quantity: number }[]): BookLevel[] => {
+  let cumulative = 0;
+  return levels.map(level => {
+    cumulative += level.quantity;
+    return { ...level, cumulative };
+  });
+};
+
+export const generateOrderBook = (coin: CoinData, rng: Rng): OrderBook => {
+  const mid = coin.currentPrice;
+  const tickSize = getTickSize(mid);
+  if (mid <= 0) return { bids: [], asks: [], mid, spread: 0, tickSize };
+
+  const volatility = Math.max(coin.model.volatility, 1e-4);
+  // Half the spread and the gap between levels, never narrower than one tick
+  const step = Math.max(tickSize, roundToTick(mid * volatility * 0.5, tickSize));
+  const depthFactor = REFERENCE_VOLATILITY / volatility;
+  const levelNotional = (coin.liquidity ?? DEFAULT_TICK_LIQUIDITY) * LEVEL_NOTIONAL_TICKS * depthFactor;
+
+  const side = (direction: 1 | -1) => {
+    const levels: { price: number; quantity: number }[] = [];
+    for (let i = 0; i < BOOK_LEVELS; i++) {
+      const price = roundToTick(mid + direction * step * (i + 1), tickSize);
+      if (price <= 0) break;
+      // Deeper levels hold more size, with some noise so the ladder looks alive
+      const notional = levelNotional * (1 + i * 0.15) * (0.6 + rng() * 0.8);
+      levels.push({ price, quantity: notional / price });
+    }
+    return withCumulative(levels);
+  };
+
+  const bids = side(-1);
+  const asks = side(1);
+  return {
+    bids,
+    asks,
+    mid,
+    spread: bids.length > 0 && asks.length > 0 ? asks[0].price - bids[0].price : 0,
+    tickSize,
+  };
+};
+
+export const generateOrderBooks = (coins: CoinData[], rng: Rng): Record<string, OrderBook> => {
+  const books: Record<string, OrderBook> = {};
+  coins.forEach(coin => {
+    books[coin.id] = generateOrderBook(coin, rng);
+  });
+  return books;
+};
+
+// Works out the average price of a market order that consumes levels from the
+// best price outward. Returns null when the book can't absorb the quantity.
+export const walkBook = (book: OrderBook, side: TradeSide, quantity: number): BookFill | null => {
+  const levels = side === 'buy' ? book.asks : book.bids;
+  let remaining = quantity;
+  let cost = 0;
+  let worstPrice = book.mid;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, level.quantity);
+    cost += take * level.price;
+    remaining -= take;
+    worstPrice = level.price;
+  }
+  if (!(quantity > 0) || !Number.isFinite(quantity) || remaining > 1e-12 * quantity) return null;
+  const averagePrice = cost / quantity;
+  return { averagePrice, worstPrice, slippage: book.mid > 0 ? Math.abs(averagePrice - book.mid) / book.mid : 0 };
+};
+
+// Largest market buy that `budget` USDT pays for when walking the asks
+export const getAffordableQuantity = (book: OrderBook, budget: number) => {
+  let remaining = budget;
+  let quantity = 0;
+  for (const level of book.asks) {
+    if (remaining <= 0 || level.price <= 0) break;
+    const take = Math.min(level.quantity, remaining / level.price);
+    quantity += take;
+    remaining -= take * level.price;
+  }
+  return quantity;
+};
+
+// Total quantity resting on one side of the book
+export const getBookDepth = (book: OrderBook, side: TradeSide) => {
+  const levels = side === 'buy' ? book.asks : book.bids;
+  return levels.length > 0 ? levels[levels.length - 1].cumulative : 0;
+};
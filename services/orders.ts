@@ -0,0 +1,244 @@
+import { CoinData, Fill, Ledger, Order, OrderType, TimeInForce } from '../types';
+import { executeMarketOrder, getBalance } from './ledger';
+import { OrderBook, walkBook } from './orderBook';
+import { createId } from './ids';
+import { isListed, isTradingPaused } from './listings';
+
+// Limit, stop and stop-limit orders for simulated coins. Orders rest in the
+// ledger and are matched against each new price after every simulation tick.
+// Resting buys reserve the cash they expect to spend and resting sells the
+// coins they offer, so new orders can't commit the same funds twice.
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop Market',
+  'stop-limit': 'Stop Limit',
+};
+
+export const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  GTC: 'Good Till Cancelled',
+  IOC: 'Immediate or Cancel',
+  GTT: 'Good Till Time',
+};
+
+const MAX_CLOSED_ORDERS = 200;
+
+export type OrderRequest = Pick<Order, 'coinId' | 'side' | 'type' | 'quantity' | 'limitPrice' | 'stopPrice' | 'timeInForce' | 'expiresAt'>;
+
+export type PlaceOrderResult =
+  | { ok: true; ledger: Ledger; fill?: Fill; order: Order }
+  | { ok: false; error: string };
+
+export interface MatchResult {
+  ledger: Ledger;
+  fills: Fill[];
+}
+
+export const needsLimitPrice = (type: OrderType) => type === 'limit' || type === 'stop-limit';
+export const needsStopPrice = (type: OrderType) => type === 'stop' || type === 'stop-limit';
+
+// The price an order is expected to trade at, used to size and check it
+export const getReferencePrice = (order: Pick<Order, 'type' | 'limitPrice' | 'stopPrice'>, currentPrice: number) => {
+  if (needsLimitPrice(order.type)) return order.limitPrice ?? currentPrice;
+  if (order.type === 'stop') return order.stopPrice ?? currentPrice;
+  return currentPrice;
+};
+
+// Buy stops trigger on a rise through the stop, sell stops on a fall
+const isStopHit = (order: Order, price: number) =>
+  order.side === 'buy' ? price >= order.stopPrice! : price <= order.stopPrice!;
+
+const isLimitMarketable = (order: Order, price: number) =>
+  order.side === 'buy' ? price <= order.limitPrice! : price >= order.limitPrice!;
+
+// Checks an order's shape and that the account can cover it right now
+export const validateOrder = (request: OrderRequest, coin: CoinData, ledger: Ledger, now: number): string | null => {
+  if (!isListed(coin) || isTradingPaused(coin)) return `Trading in ${coin.symbol} is paused.`;
+  if (!(request.quantity > 0)) return 'Enter an amount greater than zero.';
+  if (needsLimitPrice(request.type) && !(request.limitPrice! > 0)) return 'Enter a limit price.';
+  if (needsStopPrice(request.type) && !(request.stopPrice! > 0)) return 'Enter a stop price.';
+  if (request.timeInForce === 'GTT' && !(request.expiresAt! > now)) return 'The expiry must be in the future.';
+  const balance = getAvailableBalance(ledger, coin.id);
+  if (request.side === 'sell' && request.quantity > balance) {
+    return `Insufficient ${coin.symbol}: ${balance.toLocaleString()} available.`;
+  }
+  const total = request.quantity * getReferencePrice(request, coin.currentPrice);
+  const available = getAvailableCash(ledger);
+  if (request.side === 'buy' && total > available) {
+    return `Insufficient USDT: ${total.toFixed(2)} needed, ${available.toFixed(2)} available.`;
+  }
+  return null;
+};
+
+type Attempt =
+  | { status: 'filled'; ledger: Ledger; fill: Fill }
+  | { status: 'resting'; order: Order }
+  | { status: 'rejected'; reason: string };
+
+// Fills the order if the current price allows it, otherwise returns it
+// (possibly newly triggered) to keep resting. Market and stop-market orders
+// walk the book when one is given; limit orders fill at the live price. The
+// fill may use the order's own reservation but not those of other orders.
+const attemptFill = (order: Order, coin: CoinData, ledger: Ledger, now: number, book?: OrderBook): Attempt => {
+  const price = coin.currentPrice;
+  let current = order;
+  if (needsStopPrice(order.type) && !order.triggered) {
+    if (!isStopHit(order, price)) return { status: 'resting', order };
+    current = { ...order, triggered: true };
+  }
+  if (needsLimitPrice(current.type) && !isLimitMarketable(current, price)) {
+    return { status: 'resting', order: current };
+  }
+  let fillPrice = price;
+  if (book && !needsLimitPrice(current.type)) {
+    const walked = walkBook(book, current.side, current.quantity);
+    if (!walked) return { status: 'rejected', reason: 'Not enough liquidity on the order book for this size.' };
+    fillPrice = walked.averagePrice;
+  }
+  const others = { ...ledger, orders: ledger.orders.filter(o => o.id !== order.id) };
+  if (current.side === 'buy') {
+    const total = current.quantity * fillPrice;
+    const available = getAvailableCash(others);
+    if (total > available) {
+      return { status: 'rejected', reason: `Insufficient USDT: ${total.toFixed(2)} needed, ${available.toFixed(2)} available.` };
+    }
+  } else {
+    const available = getAvailableBalance(others, coin.id);
+    if (current.quantity > available) {
+      return { status: 'rejected', reason: `Insufficient ${coin.symbol}: ${available.toLocaleString()} available.` };
+    }
+  }
+  const result = executeMarketOrder(ledger, coin, current.side, current.quantity, now, current, fillPrice);
+  if (result.ok === true) return { status: 'filled', ledger: result.ledger, fill: result.fill };
+  return { status: 'rejected', reason: result.error };
+};
+
+const closeOrder = (order: Order, status: Order['status'], now: number, reason?: string): Order =>
+  ({ ...order, status, closedAt: now, reason });
+
+// Keeps every open order and only the most recent closed ones
+const pruneOrders = (orders: Order[]) => {
+  const closed = orders.filter(o => o.status !== 'open');
+  if (closed.length <= MAX_CLOSED_ORDERS) return orders;
+  const dropped = new Set(closed.slice(0, closed.length - MAX_CLOSED_ORDERS).map(o => o.id));
+  return orders.filter(o => !dropped.has(o.id));
+};
+
+export const placeOrder = (ledger: Ledger, coin: CoinData, request: OrderRequest, now = Date.now(), book?: OrderBook): PlaceOrderResult => {
+  const error = validateOrder(request, coin, ledger, now);
+  if (error) return { ok: false, error };
+
+  const order: Order = {
+    ...request,
+    id: createId('ord'),
+    createdAt: now,
+    expiresAt: request.timeInForce === 'GTT' ? request.expiresAt : undefined,
+    status: 'open',
+  };
+  // Marketable orders fill straight away, like on a real exchange
+  const attempt = attemptFill(order, coin, ledger, now, book);
+  if (attempt.status === 'filled') {
+    const filled = closeOrder(order, 'filled', now);
+    return { ok: true, ledger: { ...attempt.ledger, orders: pruneOrders([...ledger.orders, filled]) }, fill: attempt.fill, order: filled };
+  }
+  if (attempt.status === 'rejected') return { ok: false, error: attempt.reason };
+  if (order.timeInForce === 'IOC') {
+    return { ok: false, error: 'The order could not fill immediately and was cancelled (IOC).' };
+  }
+  return { ok: true, ledger: { ...ledger, orders: [...ledger.orders, attempt.order] }, order: attempt.order };
+};
+
+// Matches every open order against the latest prices. Returns null when
+// nothing changed so callers can skip a state update.
+export const matchOrders = (ledger: Ledger, coins: CoinData[], now: number, books: Record<string, OrderBook> = {}): MatchResult | null => {
+  let next = ledger;
+  let changed = false;
+  const fills: Fill[] = [];
+  // Settled in place, so each order sees the reservations left after the ones before it
+  const orders = ledger.orders.slice();
+
+  const settle = (order: Order): Order => {
+    if (order.status !== 'open') return order;
+    if (order.timeInForce === 'GTT' && order.expiresAt !== undefined && now >= order.expiresAt) {
+      changed = true;
+      return closeOrder(order, 'expired', now, 'Reached its expiry time.');
+    }
+    const coin = coins.find(c => c.id === order.coinId);
+    if (!coin) return order;
+    if (!isListed(coin)) {
+      changed = true;
+      return closeOrder(order, 'cancelled', now, `${coin.symbol} was delisted.`);
+    }
+    // Orders on a paused market keep resting until trading resumes
+    if (isTradingPaused(coin)) return order;
+
+    const attempt = attemptFill(order, coin, { ...next, orders }, now, books[coin.id]);
+    if (attempt.status === 'resting') {
+      if (attempt.order !== order) changed = true;
+      return attempt.order;
+    }
+    changed = true;
+    if (attempt.status === 'rejected') return closeOrder(order, 'rejected', now, attempt.reason);
+    next = attempt.ledger;
+    fills.push(attempt.fill);
+    return closeOrder(order, 'filled', now);
+  };
+  for (let i = 0; i < orders.length; i++) orders[i] = settle(orders[i]);
+
+  if (!changed) return null;
+  return { ledger: { ...next, orders: pruneOrders(orders) }, fills };
+};
+
+export const cancelOrder = (ledger: Ledger, orderId: string, now = Date.now()): Ledger => ({
+  ...ledger,
+  orders: ledger.orders.map(o => (o.id === orderId && o.status === 'open' ? closeOrder(o, 'cancelled', now) : o)),
+});
+
+// Changes the size or prices of an open order, re-validating it first
+export const modifyOrder = (
+  ledger: Ledger,
+  coin: CoinData,
+  orderId: string,
+  changes: Partial<Pick<Order, 'quantity' | 'limitPrice' | 'stopPrice' | 'expiresAt'>>,
+  now = Date.now(),
+): { ok: true; ledger: Ledger } | { ok: false; error: string } => {
+  const order = ledger.orders.find(o => o.id === orderId && o.status === 'open');
+  if (!order) return { ok: false, error: 'The order is no longer open.' };
+  const updated = { ...order, ...changes };
+  // The order's own reservation is released before checking its new size
+  const others = { ...ledger, orders: ledger.orders.filter(o => o.id !== orderId) };
+  const error = validateOrder(updated, coin, others, now);
+  if (error) return { ok: false, error };
+  return { ok: true, ledger: { ...ledger, orders: ledger.orders.map(o => (o.id === orderId ? updated : o)) } };
+};
+
+export const getOpenOrders = (ledger: Ledger, coinId?: string) =>
+  ledger.orders.filter(o => o.status === 'open' && (!coinId || o.coinId === coinId));
+
+// Cash held back for resting buy orders, at the price each expects to pay
+export const getReservedCash = (ledger: Ledger) =>
+  getOpenOrders(ledger)
+    .filter(o => o.side === 'buy')
+    .reduce((sum, o) => sum + o.quantity * getReferencePrice(o, 0), 0);
+
+// Cash that new buy orders can spend
+export const getAvailableCash = (ledger: Ledger) => Math.max(0, ledger.cash - getReservedCash(ledger));
+
+// Coins held back for resting sell orders
+export const getReservedQuantity = (ledger: Ledger, coinId: string) =>
+  getOpenOrders(ledger, coinId)
+    .filter(o => o.side === 'sell')
+    .reduce((sum, o) => sum + o.quantity, 0);
+
+// Coins that new sell orders can offer
+export const getAvailableBalance = (ledger: Ledger, coinId: string) =>
+  Math.max(0, getBalance(ledger, coinId) - getReservedQuantity(ledger, coinId));
+
+// Short description of an order's prices, e.g. "Stop 0.0105 / Limit 0.0104"
+export const describeOrderPrices = (order: Order) => {
+  const parts: string[] = [];
+  if (order.stopPrice !== undefined) parts.push(`Stop ${order.stopPrice.toFixed(8)}`);
+  if (order.limitPrice !== undefined) parts.push(`Limit ${order.limitPrice.toFixed(8)}`);
+  return parts.length > 0 ? parts.join(' / ') : 'Market';
+};
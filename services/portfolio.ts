@@ -0,0 +1,210 @@
+import { CoinData, EquityRange, GatewayOrder, Ledger, MarketHistory, Timeframe, TradeSide } from '../types';
+import { TIMEFRAME_MS } from './historyStore';
+import { getBalance, getTotalAssets } from './ledger';
+
+// Holdings, average-cost P&L and the equity curve of the paper portfolio.
+// Cost basis comes from recorded buys only: ledger fills plus Telegram
+// requests the desk filled. Balances that no recorded buy explains (opening
+// balances, admin edits, airdrops) carry no cost and no P&L.
+
+export const EQUITY_RANGES: Record<EquityRange, { label: string; timeframe: Timeframe; span: number }> = {
+  '1d': { label: '24H', timeframe: '1m', span: TIMEFRAME_MS['1d'] },
+  '7d': { label: '7D', timeframe: '5m', span: 7 * TIMEFRAME_MS['1d'] },
+  '30d': { label: '30D', timeframe: '1h', span: 30 * TIMEFRAME_MS['1d'] },
+  '1y': { label: '1Y', timeframe: '1d', span: 365 * TIMEFRAME_MS['1d'] },
+};
+
+export const CASH_COLOR = '#26a17b';
+
+// A change to a coin balance, from either settlement route
+export interface PortfolioTrade {
+  time: number;
+  coinId: string;
+  side: TradeSide;
+  price: number;
+  quantity: number;
+  cashFlow: number; // Change to ledger cash; Telegram fills settle outside the ledger
+}
+
+export interface Holding {
+  coin: CoinData;
+  quantity: number;
+  value: number;
+  averageCost: number | null; // Null while no recorded buy covers the position
+  costedQuantity: number; // Part of the balance bought at averageCost
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPercent: number;
+  realizedPnl: number;
+  allocation: number; // Share of total equity, in percent
+}
+
+export interface PortfolioSummary {
+  holdings: Holding[];
+  cash: number;
+  cashAllocation: number;
+  equity: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  value: number;
+}
+
+// Every recorded balance change, oldest first
+export const collectTrades = (ledger: Ledger, gatewayOrders: GatewayOrder[]): PortfolioTrade[] => {
+  const trades: PortfolioTrade[] = ledger.fills.map(fill => ({
+    time: fill.timestamp,
+    coinId: fill.coinId,
+    side: fill.side,
+    price: fill.price,
+    quantity: fill.quantity,
+    cashFlow: fill.side === 'buy' ? -fill.total : fill.total,
+  }));
+  gatewayOrders.forEach(order => {
+    if (order.status !== 'filled' || order.fillPrice === undefined) return;
+    trades.push({
+      time: order.closedAt ?? order.createdAt,
+      coinId: order.coinId,
+      side: order.side,
+      price: order.fillPrice,
+      quantity: order.quantity,
+      cashFlow: 0,
+    });
+  });
+  return trades.sort((a, b) => a.time - b.time);
+};
+
+// Average-cost position for one coin. Sells draw on the costed quantity first
+// and realize (price - average cost) on it; selling beyond it realizes nothing.
+const computePosition = (coin: CoinData, balance: number, trades: PortfolioTrade[]) => {
+  let costedQuantity = 0;
+  let averageCost: number | null = null;
+  let realizedPnl = 0;
+  trades.forEach(trade => {
+    if (trade.coinId !== coin.id) return;
+    if (trade.side === 'buy') {
+      const quantity = costedQuantity + trade.quantity;
+      averageCost = quantity > 0 ? ((averageCost ?? 0) * costedQuantity + trade.price * trade.quantity) / quantity : averageCost;
+      costedQuantity = quantity;
+    } else {
+      const matched = Math.min(trade.quantity, costedQuantity);
+      if (averageCost !== null) realizedPnl += (trade.price - averageCost) * matched;
+      costedQuantity -= matched;
+    }
+  });
+  // An admin can lower a balance below what was bought
+  return { averageCost, costedQuantity: Math.min(costedQuantity, balance), realizedPnl };
+};
+
+export const computePortfolio = (coins: CoinData[], ledger: Ledger, gatewayOrders: GatewayOrder[]): PortfolioSummary => {
+  const trades = collectTrades(ledger, gatewayOrders);
+  const equity = getTotalAssets(ledger, coins);
+
+  const holdings = coins
+    .map((coin): Holding => {
+      const balance = getBalance(ledger, coin.id);
+      const { averageCost, costedQuantity, realizedPnl } = computePosition(coin, balance, trades);
+      const value = balance * coin.currentPrice;
+      const costBasis = averageCost !== null ? averageCost * costedQuantity : 0;
+      const unrealizedPnl = averageCost !== null ? (coin.currentPrice - averageCost) * costedQuantity : 0;
+      return {
+        coin,
+        quantity: balance,
+        value,
+        averageCost,
+        costedQuantity,
+        costBasis,
+        unrealizedPnl,
+        unrealizedPercent: costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : 0,
+        realizedPnl,
+        allocation: equity > 0 ? (value / equity) * 100 : 0,
+      };
+    })
+    // Keep closed positions that still carry realized P&L
+    .filter(h => h.quantity > 0 || h.realizedPnl !== 0)
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    holdings,
+    cash: ledger.cash,
+    cashAllocation: equity > 0 ? (ledger.cash / equity) * 100 : 0,
+    equity,
+    costBasis: holdings.reduce((acc, h) => acc + h.costBasis, 0),
+    unrealizedPnl: holdings.reduce((acc, h) => acc + h.unrealizedPnl, 0),
+    realizedPnl: holdings.reduce((acc, h) => acc + h.realizedPnl, 0),
+  };
+};
+
+// Total portfolio value at the close of each recorded candle in the range.
+// Balances and cash are rolled back through the recorded trades, so the curve
+// shows what was actually held at each point; untracked balance changes are
+// treated as if they had always been there. Ends with the live value at `now`.
+export const buildEquityCurve = (
+  coins: CoinData[],
+  ledger: Ledger,
+  gatewayOrders: GatewayOrder[],
+  market: MarketHistory,
+  range: EquityRange,
+  now = Date.now(),
+): EquityPoint[] => {
+  const { timeframe, span } = EQUITY_RANGES[range];
+  const since = now - span;
+  const bucketMs = TIMEFRAME_MS[timeframe];
+
+  const times = new Set<number>();
+  coins.forEach(coin => {
+    (market[coin.id]?.candles[timeframe] ?? []).forEach(candle => {
+      if (candle.time >= since && candle.time + bucketMs <= now) times.add(candle.time);
+    });
+  });
+  const buckets = Array.from(times).sort((a, b) => a - b);
+
+  // Walk back from the present, undoing trades made after each bucket closed
+  const trades = collectTrades(ledger, gatewayOrders);
+  const balances: Record<string, number> = {};
+  coins.forEach(coin => {
+    balances[coin.id] = getBalance(ledger, coin.id);
+  });
+  let cash = ledger.cash;
+  let tradeIndex = trades.length - 1;
+  const candleIndex: Record<string, number> = {};
+  coins.forEach(coin => {
+    candleIndex[coin.id] = (market[coin.id]?.candles[timeframe].length ?? 0) - 1;
+  });
+
+  const points: EquityPoint[] = [];
+  for (let i = buckets.length - 1; i >= 0; i--) {
+    const close = buckets[i] + bucketMs;
+    while (tradeIndex >= 0 && trades[tradeIndex].time >= close) {
+      const trade = trades[tradeIndex];
+      if (balances[trade.coinId] !== undefined) {
+        balances[trade.coinId] += trade.side === 'buy' ? -trade.quantity : trade.quantity;
+      }
+      cash -= trade.cashFlow;
+      tradeIndex--;
+    }
+
+    let value = cash;
+    coins.forEach(coin => {
+      const candles = market[coin.id]?.candles[timeframe] ?? [];
+      while (candleIndex[coin.id] > 0 && candles[candleIndex[coin.id]].time > buckets[i]) candleIndex[coin.id]--;
+      const candle = candles[candleIndex[coin.id]];
+      // Before a coin's first candle, its earliest recorded price stands in
+      const price = candle ? (candle.time <= buckets[i] ? candle.close : candle.open) : coin.currentPrice;
+      value += Math.max(0, balances[coin.id]) * price;
+    });
+    points.push({ time: close, value });
+  }
+
+  points.reverse();
+  points.push({ time: now, value: getTotalAssets(ledger, coins) });
+  return points;
+};
+
+// Signed USDT amount, e.g. "+$1,234.50" or "-$12.00"
+export const formatPnl = (value: number) =>
+  `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -0,0 +1,79 @@
+import { CoinData, MarketRegime, PriceModelParams, PriceModelType } from '../types';
+
+export const PRICE_MODEL_LABELS: Record<PriceModelType, string> = {
+  gbm: 'Geometric Brownian Motion',
+  ou: 'Mean Reverting (Ornstein-Uhlenbeck)',
+  jump: 'Jump Diffusion',
+  regime: 'Regime Switching',
+};
+
+// Sensible starting parameters when the admin switches a coin to another model
+export const DEFAULT_MODEL_PARAMS: Record<PriceModelType, PriceModelParams> = {
+  gbm: { type: 'gbm', drift: 0, volatility: 0.004 },
+  ou: { type: 'ou', drift: 0, volatility: 0.005, meanReversion: 0.05 },
+  jump: { type: 'jump', drift: 0, volatility: 0.004, meanReversion: 0.02, jumpProbability: 0.02, jumpSize: 0.05 },
+  regime: { type: 'regime', drift: 0, volatility: 0.003, meanReversion: 0.03, switchProbability: 0.02, turbulenceMultiplier: 4 },
+};
+
+export interface PriceStep {
+  price: number;
+  regime?: MarketRegime;
+}
+
+// Standard normal sample via Box-Muller
+const gaussian = (random: () => number) => {
+  const u = 1 - random(); // (0, 1] so log() stays finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Pull of the log price toward the admin-set basePrice
+const reversion = (logPrice: number, basePrice: number, strength = 0) =>
+  strength * (Math.log(basePrice) - logPrice);
+
+// Advances a coin by one simulation tick. All models work on the log price so
+// prices stay positive; a zero basePrice (e.g. GAFR before listing) stays flat.
+export const stepPrice = (coin: CoinData, random: () => number = Math.random): PriceStep => {
+  const { model, basePrice } = coin;
+  if (basePrice <= 0) return { price: 0, regime: coin.regime };
+
+  // Restart from the base when the previous price is unusable (e.g. a coin that was at 0)
+  const start = coin.currentPrice > 0 ? coin.currentPrice : basePrice;
+  const x = Math.log(start);
+  const z = gaussian(random);
+
+  switch (model.type) {
+    case 'gbm': {
+      const sigma = model.volatility;
+      return { price: Math.exp(x + model.drift - (sigma * sigma) / 2 + sigma * z) };
+    }
+    case 'ou': {
+      const next = x + reversion(x, basePrice, model.meanReversion) + model.drift + model.volatility * z;
+      return { price: Math.exp(next) };
+    }
+    case 'jump': {
+      const jump = random() < (model.jumpProbability ?? 0) ? (model.jumpSize ?? 0) * gaussian(random) : 0;
+      const next = x + reversion(x, basePrice, model.meanReversion) + model.drift + model.volatility * z + jump;
+      return { price: Math.exp(next) };
+    }
+    case 'regime': {
+      const current = coin.regime ?? 'calm';
+      const regime: MarketRegime = random() < (model.switchProbability ?? 0)
+        ? (current === 'calm' ? 'turbulent' : 'calm')
+        : current;
+      const sigma = model.volatility * (regime === 'turbulent' ? (model.turbulenceMultiplier ?? 1) : 1);
+      const next = x + reversion(x, basePrice, model.meanReversion) + model.drift + sigma * z;
+      return { price: Math.exp(next), regime };
+    }
+  }
+};
+
+// Moves a coin to a new basePrice, carrying the live price along so models that
+// don't revert to the base (e.g. GBM) still follow admin changes
+export const rebaseCoin = (coin: CoinData, basePrice: number): CoinData => {
+  if (basePrice === coin.basePrice) return coin;
+  const currentPrice = coin.basePrice > 0 && coin.currentPrice > 0
+    ? coin.currentPrice * (basePrice / coin.basePrice)
+    : basePrice;
+  return { ...coin, basePrice, currentPrice };
+};
@@ -0,0 +1,60 @@
+import { CoinData, EasingCurve, PriceSchedule } from '../types';
+import { rebaseCoin } from './priceModels';
+
+export type ScheduleStatus = 'pending' | 'active' | 'done';
+
+export const EASING_LABELS: Record<EasingCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  step: 'Step',
+};
+
+const STEP_COUNT = 5; // Stairs used by the step curve
+
+export const getScheduleStatus = (schedule: PriceSchedule, now: number): ScheduleStatus => {
+  if (now < schedule.startAt) return 'pending';
+  if (now >= schedule.startAt + schedule.duration) return 'done';
+  return 'active';
+};
+
+// Price along the ramp at progress t (0..1). Exponential moves by a constant
+// percentage per tick, which is how large repricings (e.g. -99%) read on a chart.
+export const easePrice = (easing: EasingCurve, from: number, to: number, t: number) => {
+  const p = Math.min(1, Math.max(0, t));
+  switch (easing) {
+    case 'linear':
+      return from + (to - from) * p;
+    case 'exponential':
+      if (from <= 0 || to <= 0) return from + (to - from) * p;
+      return from * Math.pow(to / from, p);
+    case 'step':
+      return from + (to - from) * (Math.floor(p * STEP_COUNT) / STEP_COUNT);
+  }
+};
+
+// Records the starting basePrice of ramps that begin at or before `now`
+export const activateSchedules = (schedules: PriceSchedule[], coins: CoinData[], now: number) =>
+  schedules.map(schedule => {
+    if (schedule.fromPrice !== undefined || now < schedule.startAt) return schedule;
+    const coin = coins.find(c => c.id === schedule.coinId);
+    return coin ? { ...schedule, fromPrice: coin.basePrice } : schedule;
+  });
+
+// Sets each coin's basePrice from its started ramps. When ramps overlap the most
+// recently started one wins.
+export const applySchedules = (coins: CoinData[], schedules: PriceSchedule[], now: number) => {
+  const started = schedules
+    .filter(s => s.fromPrice !== undefined && now >= s.startAt)
+    .sort((a, b) => a.startAt - b.startAt);
+  if (started.length === 0) return coins;
+
+  return coins.map(coin => {
+    let updated = coin;
+    started.forEach(schedule => {
+      if (schedule.coinId !== coin.id) return;
+      const t = schedule.duration > 0 ? (now - schedule.startAt) / schedule.duration : 1;
+      updated = rebaseCoin(updated, easePrice(schedule.easing, schedule.fromPrice!, schedule.targetPrice, t));
+    });
+    return updated;
+  });
+};
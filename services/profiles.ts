@@ -0,0 +1,65 @@
+import { Profile } from '../types';
+import { createId } from './ids';
+
+// Demo personas sharing one market. Each profile has its own ledger (cash,
+// wallet, orders and fills) and equity snapshots, kept in localStorage.
+
+const PROFILES_KEY = 'instaitex.profiles';
+const ACTIVE_KEY = 'instaitex.profiles.active';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Main', color: '#f7a600', createdAt: 0 };
+
+// Assigned to new profiles in turn
+const PROFILE_COLORS = ['#3b82f6', '#10b981', '#ec4899', '#a855f7', '#f97316', '#06b6d4', '#eab308'];
+
+// Storage key for per-profile data. The default profile keeps the original
+// key, so saves from before profiles existed carry over.
+export const getProfileKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}.${profileId}`;
+
+// The stored profiles, always starting with the default one
+export const loadProfiles = (): Profile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const saved: Profile[] = raw ? JSON.parse(raw) : [];
+    return [DEFAULT_PROFILE, ...saved.filter(p => p.id !== DEFAULT_PROFILE_ID)];
+  } catch {
+    return [DEFAULT_PROFILE];
+  }
+};
+
+export const saveProfiles = (profiles: Profile[]) => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles.filter(p => p.id !== DEFAULT_PROFILE_ID)));
+  } catch (error) {
+    console.warn('Failed to save profiles', error);
+  }
+};
+
+export const loadActiveProfileId = (profiles: Profile[]) => {
+  const saved = localStorage.getItem(ACTIVE_KEY);
+  return profiles.some(p => p.id === saved) ? saved! : DEFAULT_PROFILE_ID;
+};
+
+export const saveActiveProfileId = (profileId: string) => {
+  localStorage.setItem(ACTIVE_KEY, profileId);
+};
+
+export const validateProfileName = (name: string, profiles: Profile[]): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a name.';
+  if (trimmed.length > 24) return 'Keep the name to 24 characters.';
+  if (profiles.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) return `${trimmed} already exists.`;
+  return null;
+};
+
+export const createProfile = (name: string, profiles: Profile[], now = Date.now()): Profile => ({
+  id: createId('profile'),
+  name: name.trim(),
+  color: PROFILE_COLORS[(profiles.length - 1) % PROFILE_COLORS.length],
+  createdAt: now,
+});
+
+export const getProfileInitial = (profile: Profile) => profile.name.trim().charAt(0).toUpperCase();
@@ -0,0 +1,51 @@
+// Seedable PRNG shared by the simulation, the charts and the voxel scenes.
+// The seed comes from the `?seed=` URL parameter; without one a random seed is
+// picked and shown in the admin panel so the session can be replayed later.
+
+export type Rng = () => number;
+
+const SEED_PARAM = 'seed';
+
+// Hashes any seed text (numbers, words) into a 32-bit integer
+const hashSeed = (input: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// mulberry32: small, fast and good enough for visual simulation
+const mulberry32 = (state: number): Rng => () => {
+  state = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(state ^ (state >>> 15), 1 | state);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const readUrlSeed = () => {
+  if (typeof window === 'undefined') return null;
+  const value = new URLSearchParams(window.location.search).get(SEED_PARAM);
+  return value && value.trim() ? value.trim() : null;
+};
+
+const urlSeed = readUrlSeed();
+const activeSeed = urlSeed ?? String(Math.floor(Math.random() * 1_000_000_000));
+
+export const getSeed = () => activeSeed;
+
+// True when the seed was pinned through the URL rather than picked at random
+export const isSeedPinned = () => urlSeed !== null;
+
+// Each consumer draws from its own named stream, so e.g. rebuilding a voxel city
+// does not shift the price path. Calling it again restarts the stream from the top.
+export const createRng = (stream: string): Rng => mulberry32(hashSeed(`${activeSeed}:${stream}`));
+
+// Reloads the app with a new seed so every stream replays from the beginning
+export const restartWithSeed = (seed: string | null) => {
+  const url = new URL(window.location.href);
+  if (seed && seed.trim()) url.searchParams.set(SEED_PARAM, seed.trim());
+  else url.searchParams.delete(SEED_PARAM);
+  window.location.assign(url.toString());
+};
@@ -0,0 +1,18 @@
+import { CoinData, SettlementKind } from '../types';
+
+// Helpers for a coin's settlement descriptor, which decides what its buy
+// buttons do on the market cards and in the trade view.
+
+export const SETTLEMENT_KIND_LABELS: Record<SettlementKind, string> = {
+  simulated: 'Paper Trading',
+  telegram: 'Telegram Order',
+  referral: 'External Link',
+  mining: 'Mining',
+};
+
+// Simulated and Telegram coins are bought and sold through the order ticket;
+// the rest link out
+export const usesOrderTicket = (coin: CoinData) =>
+  coin.settlement?.kind === 'simulated' || coin.settlement?.kind === 'telegram';
+
+export const isSimulatedSettlement = (coin: CoinData) => coin.settlement?.kind === 'simulated';
@@ -0,0 +1,219 @@
+import { CoinData, CoinId, MarketHistory, PriceSchedule, SettlementConfig, Wallet } from '../types';
+import { INITIAL_COINS } from '../constants';
+
+// Saves the market state (CoinData[]), price history and admin price schedules
+// between reloads.
+// IndexedDB is used when available, otherwise localStorage. Coin snapshots carry
+// a schema version and are migrated forward on load, so adding fields to
+// CoinData won't break old saves.
+
+const DB_NAME = 'instaitex';
+const DB_STORE = 'snapshots';
+const COINS_KEY = 'coins';
+const HISTORY_KEY = 'history';
+const SCHEDULES_KEY = 'schedules';
+const FALLBACK_PREFIX = 'instaitex.snapshot.';
+
+export const SCHEMA_VERSION = 3;
+// History is derived data, so snapshots from another version are simply dropped
+const HISTORY_SCHEMA_VERSION = 2; // v2: ticks and candles carry volume
+const SCHEDULES_SCHEMA_VERSION = 1;
+
+// A saved coin in the current schema. Fields it lacks are filled from the
+// coin's defaults on load.
+type StoredCoin = Partial<CoinData> & { id: CoinId };
+// v2 coins still carried their own balance
+type StoredCoinV2 = StoredCoin & { balance?: number };
+// v1 coins named their settlement route with a plain string
+type StoredCoinV1 = Omit<StoredCoinV2, 'settlement'> & { settlement?: string | SettlementConfig };
+
+interface CoinsSnapshot {
+  version: number;
+  savedAt: number;
+  coins: StoredCoinV1[]; // Any version; v1 is the loosest shape
+}
+
+// Saved coins, plus the balances an old snapshot kept on its coins for the
+// caller to move into the default profile's wallet
+export interface RestoredCoins {
+  coins: CoinData[];
+  legacyWallet?: Wallet;
+}
+
+interface HistorySnapshot {
+  version: number;
+  savedAt: number;
+  history: MarketHistory;
+}
+
+interface SchedulesSnapshot {
+  version: number;
+  savedAt: number;
+  schedules: PriceSchedule[];
+}
+
+interface MigrationResult {
+  coins: StoredCoinV1[];
+  legacyWallet?: Wallet;
+}
+
+type Migration = (coins: StoredCoinV1[]) => MigrationResult;
+
+// v2: settlement became a descriptor object; drop the old string so the
+// coin's default descriptor is used
+const migrateToV2 = (coins: StoredCoinV1[]): { coins: StoredCoinV2[] } => ({
+  coins: coins.map(({ settlement, ...coin }) => (typeof settlement === 'string' ? coin : { ...coin, settlement })),
+});
+
+// v3: balances moved off the coins into the default profile's wallet
+const migrateToV3 = (coins: StoredCoinV2[]): { coins: StoredCoin[]; legacyWallet: Wallet } => ({
+  coins: coins.map(({ balance, ...coin }) => coin),
+  legacyWallet: coins.reduce<Wallet>((wallet, coin) => ({ ...wallet, [coin.id]: coin.balance ?? 0 }), {}),
+});
+
+// MIGRATIONS[n] upgrades a snapshot from version n - 1 to version n.
+// Add an entry (and bump SCHEMA_VERSION) whenever CoinData changes shape.
+const MIGRATIONS: Record<number, Migration> = {
+  2: migrateToV2,
+  // Runs after migrateToV2, so every settlement is a descriptor by now
+  3: coins => migrateToV3(coins as StoredCoinV2[]),
+};
+
+const migrate = (snapshot: CoinsSnapshot): RestoredCoins => {
+  let coins = snapshot.coins;
+  let legacyWallet: Wallet | undefined;
+  for (let version = snapshot.version + 1; version <= SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) continue;
+    const result = migration(coins);
+    coins = result.coins;
+    legacyWallet = result.legacyWallet ?? legacyWallet;
+  }
+  // Every migration has run, so the coins are in the current schema. Fill any
+  // field the snapshot still lacks from the coin's defaults.
+  const current = coins as StoredCoin[];
+  return {
+    coins: current.map(saved => {
+      const defaults = INITIAL_COINS.find(c => c.id === saved.id);
+      return (defaults ? { ...defaults, ...saved } : saved) as CoinData;
+    }),
+    legacyWallet,
+  };
+};
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request against the snapshot store and resolves with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const hasIndexedDb = () => typeof indexedDB !== 'undefined';
+
+const readRecord = async <T>(key: string): Promise<T | null> => {
+  if (hasIndexedDb()) {
+    try {
+      return (await withStore<T | undefined>('readonly', store => store.get(key))) ?? null;
+    } catch {
+      // Private mode or blocked storage: fall through to localStorage
+    }
+  }
+  const raw = localStorage.getItem(FALLBACK_PREFIX + key);
+  return raw ? JSON.parse(raw) : null;
+};
+
+const writeRecord = async (key: string, value: unknown) => {
+  if (hasIndexedDb()) {
+    try {
+      await withStore('readwrite', store => store.put(value, key));
+      return;
+    } catch {
+      // Fall back to localStorage below
+    }
+  }
+  try {
+    localStorage.setItem(FALLBACK_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to save ${key}`, error);
+  }
+};
+
+const deleteRecord = async (key: string) => {
+  if (hasIndexedDb()) {
+    try {
+      await withStore('readwrite', store => store.delete(key));
+    } catch {
+      // Nothing stored there
+    }
+  }
+  localStorage.removeItem(FALLBACK_PREFIX + key);
+};
+
+// Returns the saved coins, or null when nothing usable has been stored
+export const loadCoins = async (): Promise<RestoredCoins | null> => {
+  try {
+    const snapshot = await readRecord<CoinsSnapshot>(COINS_KEY);
+    if (!snapshot || !Array.isArray(snapshot.coins)) return null;
+    // Snapshots from a newer build can't be read safely
+    if (snapshot.version > SCHEMA_VERSION) return null;
+    return migrate(snapshot);
+  } catch (error) {
+    console.warn('Failed to restore saved market state', error);
+    return null;
+  }
+};
+
+export const saveCoins = async (coins: CoinData[]) => {
+  const snapshot: CoinsSnapshot = { version: SCHEMA_VERSION, savedAt: Date.now(), coins };
+  await writeRecord(COINS_KEY, snapshot);
+};
+
+export const loadHistory = async (): Promise<MarketHistory | null> => {
+  try {
+    const snapshot = await readRecord<HistorySnapshot>(HISTORY_KEY);
+    return snapshot && snapshot.version === HISTORY_SCHEMA_VERSION ? snapshot.history : null;
+  } catch (error) {
+    console.warn('Failed to restore price history', error);
+    return null;
+  }
+};
+
+export const saveHistory = async (history: MarketHistory) => {
+  const snapshot: HistorySnapshot = { version: HISTORY_SCHEMA_VERSION, savedAt: Date.now(), history };
+  await writeRecord(HISTORY_KEY, snapshot);
+};
+
+// Pending and running ramps, so a reload resumes them where they left off
+export const loadSchedules = async (): Promise<PriceSchedule[] | null> => {
+  try {
+    const snapshot = await readRecord<SchedulesSnapshot>(SCHEDULES_KEY);
+    return snapshot && snapshot.version === SCHEDULES_SCHEMA_VERSION && Array.isArray(snapshot.schedules) ? snapshot.schedules : null;
+  } catch (error) {
+    console.warn('Failed to restore price schedules', error);
+    return null;
+  }
+};
+
+export const saveSchedules = async (schedules: PriceSchedule[]) => {
+  const snapshot: SchedulesSnapshot = { version: SCHEDULES_SCHEMA_VERSION, savedAt: Date.now(), schedules };
+  await writeRecord(SCHEDULES_KEY, snapshot);
+};
+
+// Clears saved coins, history and schedules
+export const clearSavedMarket = async () => {
+  await Promise.all([deleteRecord(COINS_KEY), deleteRecord(HISTORY_KEY), deleteRecord(SCHEDULES_KEY)]);
+};
@@ -0,0 +1,139 @@
+import { CoinData, GatewayLocale, GatewayOrder, Ledger, TradeSide } from '../types';
+import { createId } from './ids';
+import { getBalance, setBalance } from './ledger';
+import { DEFAULT_PROFILE_ID } from './profiles';
+
+// Hand-off of orders (and airdrop claims) to Telegram bots. Messages are built
+// from localized templates and quote an order id and checksum so the desk can
+// match each message to the request recorded here.
+
+const ORDERS_KEY = 'instaitex.gateway.orders';
+
+export const DEFAULT_BOT_HANDLE = 'Insbitg';
+export const DEFAULT_GATEWAY_LOCALE: GatewayLocale = 'ru';
+
+export type GatewayTemplate = 'buy' | 'sell' | 'airdrop';
+
+// Placeholders in {braces} are filled by fillTemplate
+export const GATEWAY_TEMPLATES: Record<GatewayLocale, Record<GatewayTemplate, string>> = {
+  ru: {
+    buy: 'Заявка на покупку {orderId}\nМонета: {symbol}\nКоличество: {quantity}\nЦена: ${price}\nСумма: ${total}\nКонтрольная сумма: {checksum}',
+    sell: 'Заявка на продажу {orderId}\nМонета: {symbol}\nКоличество: {quantity}\nЦена: ${price}\nСумма: ${total}\nКонтрольная сумма: {checksum}',
+    airdrop: 'Здравствуйте! Я подключил кошелек и хочу получить Airdrop {amount} {symbol}.',
+  },
+  en: {
+    buy: 'Buy order {orderId}\nCoin: {symbol}\nQuantity: {quantity}\nPrice: ${price}\nTotal: ${total}\nChecksum: {checksum}',
+    sell: 'Sell order {orderId}\nCoin: {symbol}\nQuantity: {quantity}\nPrice: ${price}\nTotal: ${total}\nChecksum: {checksum}',
+    airdrop: 'Hello! I have connected my wallet and would like to claim the {amount} {symbol} airdrop.',
+  },
+};
+
+export const GATEWAY_STATUS_LABELS: Record<GatewayOrder['status'], string> = {
+  pending: 'Pending',
+  filled: 'Filled',
+  rejected: 'Rejected',
+};
+
+// Unknown placeholders are left as they are so a broken template is visible
+export const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (values[key] !== undefined ? String(values[key]) : match));
+
+export const normalizeBotHandle = (handle: string) => handle.trim().replace(/^@/, '');
+
+export const isValidBotHandle = (handle: string) => /^[A-Za-z0-9_]{5,32}$/.test(normalizeBotHandle(handle));
+
+export const buildGatewayLink = (botHandle: string, message: string) =>
+  `https://t.me/${normalizeBotHandle(botHandle)}?text=${encodeURIComponent(message)}`;
+
+// 32-bit FNV-1a over the order's fields, as 8 hex digits
+export const computeChecksum = (order: Pick<GatewayOrder, 'id' | 'coinId' | 'side' | 'quantity' | 'price' | 'total'>) => {
+  const payload = [order.id, order.coinId, order.side, order.quantity, order.price, order.total].join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < payload.length; i++) {
+    hash ^= payload.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const verifyChecksum = (order: GatewayOrder) => computeChecksum(order) === order.checksum;
+
+export const loadGatewayOrders = (): GatewayOrder[] => {
+  try {
+    const raw = localStorage.getItem(ORDERS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGatewayOrders = (orders: GatewayOrder[]) => {
+  try {
+    localStorage.setItem(ORDERS_KEY, JSON.stringify(orders));
+  } catch (error) {
+    console.warn('Failed to save Telegram orders', error);
+  }
+};
+
+// Records a pending request from `profileId` and builds the Telegram link that sends it
+export const createGatewayOrder = (coin: CoinData, side: TradeSide, quantity: number, profileId: string, now = Date.now()): { order: GatewayOrder; link: string } => {
+  const botHandle = coin.settlement?.botHandle ?? DEFAULT_BOT_HANDLE;
+  const price = coin.currentPrice;
+  const base = {
+    id: createId('tg').toUpperCase(),
+    coinId: coin.id,
+    side,
+    quantity,
+    price,
+    total: Math.round(quantity * price * 100) / 100,
+  };
+  const order: GatewayOrder = { ...base, createdAt: now, checksum: computeChecksum(base), botHandle, status: 'pending', profileId };
+  const template = GATEWAY_TEMPLATES[coin.settlement?.locale ?? DEFAULT_GATEWAY_LOCALE][side];
+  const message = fillTemplate(template, {
+    orderId: order.id,
+    symbol: coin.symbol,
+    quantity,
+    price: price.toFixed(8),
+    total: order.total.toFixed(2),
+    checksum: order.checksum,
+  });
+  return { order, link: buildGatewayLink(botHandle, message) };
+};
+
+export const buildAirdropLink = (amount: number, symbol: string, locale = DEFAULT_GATEWAY_LOCALE, botHandle = DEFAULT_BOT_HANDLE) =>
+  buildGatewayLink(botHandle, fillTemplate(GATEWAY_TEMPLATES[locale].airdrop, { amount: amount.toLocaleString('en-US'), symbol }));
+
+export type GatewayResolution = { status: 'filled'; fillPrice: number } | { status: 'rejected'; reason: string };
+
+// Marks a pending request filled (at `fillPrice`) or rejected
+export const resolveGatewayOrder = (
+  orders: GatewayOrder[],
+  id: string,
+  resolution: GatewayResolution,
+  now = Date.now(),
+): GatewayOrder[] =>
+  orders.map(o => (o.id === id && o.status === 'pending' ? { ...o, ...resolution, closedAt: now } : o));
+
+export const getOrderProfileId = (order: GatewayOrder) => order.profileId ?? DEFAULT_PROFILE_ID;
+
+// The sender's ledger once the desk fills a request. Sells can't take the
+// balance below zero.
+export const applyGatewayFill = (order: GatewayOrder, coin: CoinData, ledger: Ledger): { ok: true; ledger: Ledger; balance: number } | { ok: false; error: string } => {
+  const current = getBalance(ledger, coin.id);
+  if (order.side === 'sell' && order.quantity > current) {
+    return { ok: false, error: `Only ${current.toLocaleString()} ${coin.symbol} available to sell.` };
+  }
+  const balance = order.side === 'buy' ? current + order.quantity : current - order.quantity;
+  return { ok: true, ledger: setBalance(ledger, coin.id, balance), balance };
+};
+
+// Compact age of a request, e.g. "45s", "12m", "3h 5m", "2d 4h"
+export const formatOrderAge = (createdAt: number, now = Date.now()) => {
+  const seconds = Math.max(0, Math.floor((now - createdAt) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
@@ -0,0 +1,58 @@
+import { Fill, Tick, TradeSide } from '../types';
+
+// Market trades tape. Every simulation tick already carries a traded volume,
+// so each one becomes a print on the tape; the user's own fills are merged in.
+
+export interface MarketTrade {
+  id: string;
+  time: number;
+  side: TradeSide; // Aggressor side: upticks print as buys, downticks as sells
+  price: number;
+  quantity: number;
+  isOwn: boolean; // One of the user's paper-trading fills
+}
+
+const DEFAULT_TAPE_LENGTH = 100;
+
+// Newest first. Unchanged prices keep the previous print's side (tick test).
+// Only market prints are capped at `limit`; the user's fills are all kept, so
+// heavy market volume never pushes them out of the tape or its export.
+export const buildTradeTape = (ticks: Tick[], fills: Fill[], coinId: string, limit = DEFAULT_TAPE_LENGTH): MarketTrade[] => {
+  const market: MarketTrade[] = [];
+  let side: TradeSide = 'buy';
+  ticks.forEach((tick, i) => {
+    const previous = ticks[i - 1];
+    if (previous && tick.price !== previous.price) side = tick.price > previous.price ? 'buy' : 'sell';
+    if (!(tick.volume > 0)) return;
+    market.push({ id: `tick-${tick.time}`, time: tick.time, side, price: tick.price, quantity: tick.volume, isOwn: false });
+  });
+
+  const own = fills
+    .filter(fill => fill.coinId === coinId)
+    .map(fill => ({ id: fill.id, time: fill.timestamp, side: fill.side, price: fill.price, quantity: fill.quantity, isOwn: true }));
+
+  return [...market.slice(-limit), ...own].sort((a, b) => b.time - a.time);
+};
+
+export const tradesToCsv = (trades: MarketTrade[], symbol: string) => {
+  const rows = trades.map(trade => [
+    new Date(trade.time).toISOString(),
+    `${symbol}/USDT`,
+    trade.side,
+    trade.price,
+    trade.quantity,
+    trade.price * trade.quantity,
+    trade.isOwn ? 'yes' : 'no',
+  ].join(','));
+  return ['time,pair,side,price,quantity,total_usdt,own', ...rows].join('\n');
+};
+
+// Saves text as a file through a temporary object URL
+export const downloadTextFile = (filename: string, content: string, mimeType = 'text/csv') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
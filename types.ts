@@ -1,26 +1,214 @@
 
-export type CoinId = 'USTC' | 'INSb' | 'HOT' | 'KEEP' | 'RBTC' | 'GAFR';
+// Coins are listed and delisted at runtime, so ids are plain data (the symbol of the listing)
+export type CoinId = string;
+
+export type PriceModelType = 'gbm' | 'ou' | 'jump' | 'regime';
+
+export type MarketRegime = 'calm' | 'turbulent';
+
+export interface PriceModelParams {
+  type: PriceModelType;
+  drift: number; // Expected log return per tick
+  volatility: number; // Std dev of log return per tick
+  meanReversion?: number; // Pull toward basePrice per tick (0..1), used by ou/jump/regime
+  jumpProbability?: number; // Chance of a jump on any tick (jump)
+  jumpSize?: number; // Std dev of the log jump (jump)
+  switchProbability?: number; // Chance of flipping regime on any tick (regime)
+  turbulenceMultiplier?: number; // Volatility multiplier while turbulent (regime)
+}
 
 export interface PricePoint {
   time: string;
   value: number;
 }
 
+export type Timeframe = '1m' | '5m' | '1h' | '1d';
+
+export interface Tick {
+  time: number; // Epoch ms
+  price: number;
+  volume: number; // Simulated traded quantity
+}
+
+export interface Candle {
+  time: number; // Epoch ms of the bucket start
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Traded quantity
+  quoteVolume: number; // Traded value in USDT (sum of price * volume)
+}
+
+// How the detailed chart draws price data
+export type ChartMode = 'area' | 'line' | 'candles' | 'ohlc' | 'heikin-ashi';
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd' | 'volume';
+
+// An indicator added to the detailed chart; params are keyed by the names
+// listed in its definition (e.g. period, stdDev)
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+  color: string;
+}
+
+export interface CoinHistory {
+  ticks: Tick[]; // Raw simulation ticks, most recent only
+  candles: Record<Timeframe, Candle[]>;
+}
+
+export type MarketHistory = Record<string, CoinHistory>; // Keyed by CoinId
+
+export type MarketSort = 'default' | 'name' | 'price' | 'change' | 'high' | 'low' | 'holdings' | 'value';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type MarketView = 'grid' | 'table';
+
+// A named set of markets; the built-in Favorites list is one of them
+export interface Watchlist {
+  id: string;
+  name: string;
+  coinIds: CoinId[];
+}
+
+export type EquityRange = '1d' | '7d' | '30d' | '1y';
+
+// What the portfolio held and was worth at one moment; only non-zero balances are kept
+export interface EquitySnapshot {
+  time: number;
+  cash: number;
+  equity: number;
+  holdings: Record<CoinId, { balance: number; price: number }>;
+}
+
+// How a coin is bought: filled instantly against the paper-trading ledger, sent
+// as a request to the Telegram order bot, or handed off to an external site
+// (a referral link or a mining app). Only the first two use the order ticket.
+export type SettlementKind = 'simulated' | 'telegram' | 'referral' | 'mining';
+
+export type SettlementIcon = 'trending-up' | 'rabbit' | 'external-link' | 'hammer' | 'shield';
+
+export type GatewayLocale = 'ru' | 'en';
+
+export interface SettlementConfig {
+  kind: SettlementKind;
+  label: string; // Primary button text, e.g. "Buy KEEP"
+  icon: SettlementIcon;
+  color: string; // Primary button colour
+  url?: string; // External destination for 'referral' and 'mining'
+  botHandle?: string; // Telegram order bot for 'telegram', without the @
+  locale?: GatewayLocale; // Language of the Telegram order message
+  caption?: string; // Small print under the button on market cards
+  widget?: 'podway-launch'; // Extra promo shown beside the button
+}
+
+// How a coin's market card looks. The card's call to action comes from its
+// settlement descriptor.
+export interface CoinDisplay {
+  badge: string; // Tag beside the symbol, e.g. "Shares"
+  avatar: string; // Short text in the round icon, e.g. "RSW"
+  watermark?: 'database' | 'box'; // Large faded icon behind the card
+  muted?: boolean; // Greys out the sparkline, e.g. while mining is paused
+  infoRows?: { label: string; value: string }[]; // Extra facts under the holding figures
+}
+
+// Paused coins stay visible but can't be traded; delisted coins are hidden
+// everywhere except the admin panel and stop moving
+export type CoinStatus = 'active' | 'paused' | 'delisted';
+
 export interface CoinData {
   id: CoinId;
   name: string;
   symbol: string;
   description: string;
-  balance: number;
   basePrice: number; // The price set by admin
-  currentPrice: number; // The fluctuating price (+/- 2%)
+  currentPrice: number; // The simulated price produced by the coin's price model
   history: PricePoint[];
   color: string;
+  liquidity?: number; // Simulated USDT traded per tick at normal activity
+  model: PriceModelParams;
+  regime?: MarketRegime; // Current state of the regime-switching model
+  settlement?: SettlementConfig; // Coins without one can't be bought yet
+  display?: CoinDisplay;
+  status?: CoinStatus; // Active when unset
 }
 
-export interface CoinConfig {
-    balance: number;
-    basePrice: number;
+export type EasingCurve = 'linear' | 'exponential' | 'step';
+
+export interface PriceSchedule {
+  id: string;
+  coinId: CoinId;
+  targetPrice: number;
+  startAt: number; // Epoch ms when the ramp begins
+  duration: number; // Ramp length in ms (0 = instant at startAt)
+  easing: EasingCurve;
+  fromPrice?: number; // basePrice captured when the ramp starts
+}
+
+export type AuditField = 'balance' | 'basePrice';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  coinId: CoinId;
+  field: AuditField;
+  previousValue: number;
+  newValue: number;
+  reason?: string;
+  source: 'manual' | 'schedule';
+  profileId?: string; // Whose wallet a balance entry changed
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop-limit';
+
+// GTC: until cancelled, IOC: fill immediately or cancel, GTT: until expiresAt
+export type TimeInForce = 'GTC' | 'IOC' | 'GTT';
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+
+export interface Order {
+  id: string;
+  createdAt: number;
+  coinId: CoinId;
+  side: TradeSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number; // limit and stop-limit
+  stopPrice?: number; // stop and stop-limit
+  timeInForce: TimeInForce;
+  expiresAt?: number; // GTT only
+  triggered?: boolean; // A stop-limit whose stop has been hit rests as a limit order
+  status: OrderStatus;
+  closedAt?: number;
+  reason?: string; // Why an order was rejected or expired
+}
+
+// One executed trade in the paper-trading ledger
+export interface Fill {
+  id: string;
+  timestamp: number;
+  coinId: CoinId;
+  side: TradeSide;
+  price: number;
+  quantity: number;
+  total: number; // USDT paid or received
+  orderId?: string;
+  orderType?: OrderType;
+}
+
+// Coin balances of one profile
+export type Wallet = Record<CoinId, number>;
+
+export interface Ledger {
+  cash: number; // USDT available for trading
+  wallet: Wallet;
+  fills: Fill[];
+  orders: Order[]; // Open orders plus recently closed ones
 }
 
 export type NewsCategory = 'article' | 'website' | 'video';
@@ -39,4 +227,58 @@ export interface NewsItem {
   relatedCoinId: CoinId;
   priceImpact: string; // e.g. "+15.4%" or "-2.1%"
   internalLink?: 'markets' | 'trade' | 'news' | 'airdrop'; // Internal navigation target
-}
\ No newline at end of file
+}
+
+export type GatewayOrderStatus = 'pending' | 'filled' | 'rejected';
+
+// A buy or sell request handed off to a Telegram order bot. It stays pending
+// until the desk settles it.
+export interface GatewayOrder {
+  id: string; // Quoted in the Telegram message so the desk can match it
+  createdAt: number;
+  coinId: CoinId;
+  side: TradeSide;
+  quantity: number;
+  price: number; // Market price when the request was sent
+  total: number; // USDT at that price
+  checksum: string; // Over the fields above; a message that doesn't match was edited
+  botHandle: string;
+  status: GatewayOrderStatus;
+  closedAt?: number;
+  fillPrice?: number;
+  reason?: string; // Why the desk rejected it
+  profileId?: string; // Profile that sent it; the default profile when unset
+}
+
+// A demo persona with its own ledger; the market is shared
+export interface Profile {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: number;
+}
+
+// 'move' fires on a percent change within a window; 'news' on a new article about the coin
+export type AlertCondition = 'above' | 'below' | 'move' | 'news';
+
+export interface PriceAlert {
+  id: string;
+  coinId: CoinId;
+  condition: AlertCondition;
+  threshold?: number; // Price for above/below, percent for move
+  windowMinutes?: number; // Look-back for move
+  seenNewsIds?: string[]; // News already out when the alert was armed
+  active: boolean; // Alerts switch off once they fire
+  createdAt: number;
+  armedAt: number; // Creation or the last re-enable; moves are measured from no earlier than this
+  firedAt?: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  coinId: CoinId;
+  time: number;
+  price: number;
+  message: string;
+}